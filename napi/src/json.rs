@@ -11,13 +11,12 @@ use radicle::cob::patch::{Merge, Patch, PatchId, Review};
 use radicle::cob::thread::{Comment, CommentId, Edit};
 use radicle::cob::{ActorId, Author};
 use radicle::git::RefString;
-use radicle::node::{Alias, AliasStore};
+use radicle::node::{Alias, AliasStore, Link, Session, State};
 use radicle::prelude::NodeId;
 use radicle::storage::{git, refs, RemoteRepository};
 use radicle_surf::Oid;
 
 /// Returns JSON for an `issue`.
-#[allow(dead_code)]
 pub(crate) fn issue(id: IssueId, issue: Issue, aliases: &impl AliasStore) -> Value {
 	json!({
 		"id": id.to_string(),
@@ -110,6 +109,25 @@ pub(crate) fn author(author: &Author, alias: Option<Alias>) -> Value {
 	}
 }
 
+/// Returns JSON for a node `Session` and fills in the peer's `alias` when present.
+pub(crate) fn session(session: &Session, aliases: &impl AliasStore) -> Value {
+	json!({
+		"nid": session.nid,
+		"alias": aliases.alias(&session.nid),
+		"addr": session.addr.to_string(),
+		"state": match session.state {
+			State::Initial => "initial",
+			State::Attempted => "attempted",
+			State::Connected { .. } => "connected",
+			State::Disconnected { .. } => "disconnected",
+		},
+		"link": match session.link {
+			Link::Inbound => "inbound",
+			Link::Outbound => "outbound",
+		},
+	})
+}
+
 /// Returns JSON for a patch `Merge` and fills in `alias` when present.
 fn merge(nid: &NodeId, merge: &Merge, aliases: &impl AliasStore) -> Value {
 	json!({
@@ -1,24 +1,31 @@
-use std::path::Path;
+use std::path::{Path, PathBuf};
 use std::str::FromStr;
 
 #[macro_use]
 extern crate napi_derive;
 
 use anyhow::{Context, Result};
+use base64::Engine as _;
 
 use napi::{Env, JsUnknown};
-use radicle::cob::Author;
+use radicle::cob::thread::CommentId;
+use radicle::cob::{Author, CodeLocation, CodeRange, Label};
+use radicle::git::Oid;
 use radicle::identity::{DocAt, RepoId};
 use radicle::issue::cache::Issues;
+use radicle::issue::IssueId;
 use radicle::node::routing::Store;
 use radicle::node::{AliasStore, Handle};
 
 use radicle::patch::cache::Patches;
-use radicle::patch::PatchId;
+use radicle::patch::{Lifecycle, PatchId, RevisionId, Verdict};
 use radicle::profile::Home;
 use radicle::storage::{ReadRepository, ReadStorage};
+use radicle::prelude::Did;
 use radicle::Profile;
-use serde_json::Value;
+use radicle_surf::diff::FileDiff;
+use radicle_surf::fs::EntryKind;
+use serde_json::{json, Value};
 
 mod json;
 
@@ -51,6 +58,8 @@ mod project {
 pub enum Error {
 	#[error("patch not found")]
 	PatchNotFound,
+	#[error("issue not found")]
+	IssueNotFound,
 	#[error("{err}")]
 	WithHint {
 		err: anyhow::Error,
@@ -94,169 +103,526 @@ impl RadicleContext for DefaultContext {
 	}
 }
 
+/// Runs the body of a binding, converting any error it returns into one thrown in JS. The
+/// hint of an [`Error::WithHint`] gets appended to the message so that it reaches the user,
+/// and the context of any other error is kept.
+fn with_hint<T>(body: impl FnOnce() -> Result<T>) -> napi::Result<T> {
+	body().map_err(|err| {
+		let reason = match err.chain().find_map(|cause| cause.downcast_ref::<Error>()) {
+			Some(Error::WithHint { err, hint }) => format!("{err:#} {hint}"),
+			_ => format!("{err:#}"),
+		};
+
+		napi::Error::from_reason(reason)
+	})
+}
+
+#[napi]
+pub fn nid() -> napi::Result<String> {
+	with_hint(|| {
+		Ok(radicle::Node::new(DefaultContext.profile()?.socket())
+			.nid()?
+			.to_string())
+	})
+}
+
+/// Returns the identity of the local Radicle profile, shaped like the output of `rad self`.
+#[napi]
+pub fn identity() -> napi::Result<Value> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+
+		Ok(json!({
+			"did": profile.did(),
+			"nid": profile.id().to_string(),
+			"alias": profile.config.node.alias,
+		}))
+	})
+}
+
 #[napi]
-pub fn nid() -> anyhow::Result<String> {
-	Ok(radicle::Node::new(DefaultContext.profile()?.socket())
-		.nid()?
-		.to_string())
+pub fn node_status() -> napi::Result<Value> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let node = radicle::Node::new(profile.socket());
+		let aliases = profile.aliases();
+		let policies = profile.policies()?;
+
+		let is_running = node.is_running();
+		let peers = if is_running {
+			node.sessions()?
+				.iter()
+				.map(|session| json::session(session, &aliases))
+				.collect::<Vec<_>>()
+		} else {
+			Vec::new()
+		};
+		let seeding = profile
+			.storage
+			.repositories()?
+			.into_iter()
+			.filter(|info| policies.is_seeding(&info.rid).unwrap_or_default())
+			.map(|info| {
+				json!({
+					"rid": info.rid,
+					"name": info.doc.project().ok().map(|project| project.name().to_owned()),
+				})
+			})
+			.collect::<Vec<_>>();
+
+		Ok(json!({
+			"isRunning": is_running,
+			"nid": profile.id().to_string(),
+			"alias": profile.config.node.alias,
+			"peers": peers,
+			"seeding": seeding,
+		}))
+	})
 }
 
 #[napi]
-pub fn rid_at(path: String) -> anyhow::Result<String> {
-	Ok(radicle::rad::at(Path::new(&path))
-		.map(|(_, rid)| rid)
-		.with_context(|| format!("{} is not a Radicle repository", path))?
-		.to_string())
+pub fn rid_at(path: String) -> napi::Result<String> {
+	with_hint(|| {
+		Ok(radicle::rad::at(Path::new(&path))
+			.map(|(_, rid)| rid)
+			.with_context(|| format!("{} is not a Radicle repository", path))?
+			.to_string())
+	})
 }
 
 #[napi]
-pub fn project(env: Env, rid: String) -> Result<JsUnknown> {
-	let profile = DefaultContext.profile()?;
-	let aliases = profile.aliases();
-	let repo = profile
-		.storage
-		.repository(RepoId::from_urn(rid.as_str())?)?;
-
-	let doc = repo.identity_doc()?;
-
-	let (_, head) = repo.head()?;
-	let DocAt { doc, .. } = doc;
-	let id = repo.id();
-
-	let payload = doc.project()?;
-	let delegates = doc
-		.delegates
-		.into_iter()
-		.map(|did| json::author(&Author::new(did), aliases.alias(did.as_key())))
-		.collect::<Vec<_>>();
-	let issues = profile.issues(&repo)?.counts()?;
-	let patches = profile.patches(&repo)?.counts()?;
-	let db = &profile.database()?;
-	let seeding = db.count(&id).unwrap_or_default();
-
-	let info = project::Info {
-		payload,
-		delegates,
-		threshold: doc.threshold,
-		visibility: doc.visibility,
-		head,
-		issues,
-		patches,
-		id,
-		seeding,
-	};
-
-	Ok(env.to_js_value(&info)?)
+pub fn project(env: Env, rid: String) -> napi::Result<JsUnknown> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let aliases = profile.aliases();
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+
+		let doc = repo.identity_doc()?;
+
+		let (_, head) = repo.head()?;
+		let DocAt { doc, .. } = doc;
+		let id = repo.id();
+
+		let payload = doc.project()?;
+		let delegates = doc
+			.delegates
+			.into_iter()
+			.map(|did| json::author(&Author::new(did), aliases.alias(did.as_key())))
+			.collect::<Vec<_>>();
+		let issues = profile.issues(&repo)?.counts()?;
+		let patches = profile.patches(&repo)?.counts()?;
+		let db = &profile.database()?;
+		let seeding = db.count(&id).unwrap_or_default();
+
+		let info = project::Info {
+			payload,
+			delegates,
+			threshold: doc.threshold,
+			visibility: doc.visibility,
+			head,
+			issues,
+			patches,
+			id,
+			seeding,
+		};
+
+		Ok(env.to_js_value(&info)?)
+	})
 }
 
 #[napi]
-pub fn projects(env: Env) -> Result<Vec<JsUnknown>> {
-	let profile = DefaultContext.profile()?;
-	let storage = &profile.storage;
-	let db = &profile.database()?;
-	let policies = profile.policies()?;
-
-	let mut projects = storage
-		.repositories()?
-		.into_iter()
-		.filter(|repo| repo.doc.visibility.is_public())
-		.collect::<Vec<_>>();
-
-	projects.sort_by_key(|p| p.rid);
-
-	let infos = projects
-		.into_iter()
-		.filter_map(|info| {
-			if !policies.is_seeding(&info.rid).unwrap_or_default() {
-				return None;
+pub fn projects(env: Env) -> napi::Result<Vec<JsUnknown>> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let storage = &profile.storage;
+		let db = &profile.database()?;
+		let policies = profile.policies()?;
+
+		let mut projects = storage
+			.repositories()?
+			.into_iter()
+			.filter(|repo| repo.doc.visibility.is_public())
+			.collect::<Vec<_>>();
+
+		projects.sort_by_key(|p| p.rid);
+
+		let infos = projects
+			.into_iter()
+			.filter_map(|info| {
+				if !policies.is_seeding(&info.rid).unwrap_or_default() {
+					return None;
+				}
+				let Ok(repo) = storage.repository(info.rid) else {
+					return None;
+				};
+				let Ok((_, head)) = repo.head() else {
+					return None;
+				};
+				let Ok(payload) = info.doc.project() else {
+					return None;
+				};
+				let Ok(issues) = profile.issues(&repo) else {
+					return None;
+				};
+				let Ok(issues) = issues.counts() else {
+					return None;
+				};
+				let Ok(patches) = profile.patches(&repo) else {
+					return None;
+				};
+				let Ok(patches) = patches.counts() else {
+					return None;
+				};
+				let aliases = profile.aliases();
+				let delegates = info
+					.doc
+					.delegates
+					.into_iter()
+					.map(|did| json::author(&Author::new(did), aliases.alias(did.as_key())))
+					.collect::<Vec<_>>();
+				let seeding = db.count(&info.rid).unwrap_or_default();
+
+				Some(project::Info {
+					payload,
+					delegates,
+					head,
+					threshold: info.doc.threshold,
+					visibility: info.doc.visibility,
+					issues,
+					patches,
+					id: info.rid,
+					seeding,
+				})
+			})
+			.filter_map(|info| {
+				let Ok(unknown) = env.to_js_value(&info) else {
+					return None;
+				};
+				return Some(unknown);
+			})
+			.collect::<Vec<_>>();
+
+		Ok::<_, anyhow::Error>(infos)
+	})
+}
+
+#[napi]
+pub fn patches(rid: String) -> napi::Result<Vec<Value>> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let aliases = profile.aliases();
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let mut patches = Vec::from_iter(profile.patches(&repo)?.list()?.filter_map(|result| {
+			match result {
+				Ok(x) => Some(x),
+				Err(_) => {
+					// TODO(lorenzleutgeb): Report error.
+					None
+				}
 			}
-			let Ok(repo) = storage.repository(info.rid) else {
-				return None;
-			};
-			let Ok((_, head)) = repo.head() else {
-				return None;
-			};
-			let Ok(payload) = info.doc.project() else {
-				return None;
-			};
-			let Ok(issues) = profile.issues(&repo) else {
-				return None;
-			};
-			let Ok(issues) = issues.counts() else {
-				return None;
-			};
-			let Ok(patches) = profile.patches(&repo) else {
-				return None;
-			};
-			let Ok(patches) = patches.counts() else {
-				return None;
-			};
-			let aliases = profile.aliases();
-			let delegates = info
-				.doc
-				.delegates
-				.into_iter()
-				.map(|did| json::author(&Author::new(did), aliases.alias(did.as_key())))
-				.collect::<Vec<_>>();
-			let seeding = db.count(&info.rid).unwrap_or_default();
-
-			Some(project::Info {
-				payload,
-				delegates,
-				head,
-				threshold: info.doc.threshold,
-				visibility: info.doc.visibility,
-				issues,
-				patches,
-				id: info.rid,
-				seeding,
+		}));
+		patches.sort_by(|(_, a), (_, b)| b.timestamp().cmp(&a.timestamp()));
+		Ok(patches
+			.iter()
+			.map(|(id, patch)| json::patch(*id, patch.clone(), &repo, &aliases))
+			.collect::<Vec<_>>())
+	})
+}
+
+#[napi]
+pub fn patch(rid: String, patch_id: String) -> napi::Result<Value> {
+	with_hint(|| {
+		let oid = PatchId::from_str(patch_id.as_str())?;
+		let profile = DefaultContext.profile()?;
+		let aliases = profile.aliases();
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+
+		let patches = profile.patches(&repo)?;
+		let patch = patches.get(&oid)?.ok_or(Error::PatchNotFound)?;
+
+		Ok(json::patch(oid.into(), patch, &repo, &aliases))
+	})
+}
+
+#[napi]
+pub fn issues(rid: String) -> napi::Result<Vec<Value>> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let aliases = profile.aliases();
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		// issues whose COB fails to load are skipped rather than failing the whole listing
+		let mut issues = Vec::from_iter(
+			profile
+				.issues(&repo)?
+				.list()?
+				.filter_map(|result| result.ok()),
+		);
+		issues.sort_by(|(_, a), (_, b)| b.timestamp().cmp(&a.timestamp()));
+		Ok(issues
+			.into_iter()
+			.map(|(id, issue)| json::issue(id, issue, &aliases))
+			.collect::<Vec<_>>())
+	})
+}
+
+#[napi]
+pub fn issue(rid: String, issue_id: String) -> napi::Result<Value> {
+	with_hint(|| {
+		let oid = IssueId::from_str(issue_id.as_str())?;
+		let profile = DefaultContext.profile()?;
+		let aliases = profile.aliases();
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+
+		let issues = profile.issues(&repo)?;
+		let issue = issues.get(&oid)?.ok_or(Error::IssueNotFound)?;
+
+		Ok(json::issue(oid, issue, &aliases))
+	})
+}
+
+#[napi]
+pub fn create_issue(
+	rid: String,
+	title: String,
+	description: String,
+	labels: Vec<String>,
+	assignees: Vec<String>,
+) -> napi::Result<String> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let signer = profile.signer()?;
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let labels = labels
+			.into_iter()
+			.map(Label::new)
+			.collect::<Result<Vec<_>, _>>()?;
+		let assignees = assignees
+			.iter()
+			.map(|did| Did::from_str(did))
+			.collect::<Result<Vec<_>, _>>()?;
+
+		let mut issues = profile.issues_mut(&repo)?;
+		let issue = issues.create(title, description, &labels, &assignees, [], &signer)?;
+
+		Ok(issue.id().to_string())
+	})
+}
+
+#[napi(object)]
+pub struct NewCodeLocation {
+	pub path: String,
+	pub commit: String,
+	pub line_start: u32,
+	pub line_end: u32,
+}
+
+#[napi]
+pub fn comment_on_patch_revision(
+	rid: String,
+	patch_id: String,
+	revision_id: String,
+	body: String,
+	reply_to: Option<String>,
+	location: Option<NewCodeLocation>,
+) -> napi::Result<String> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let signer = profile.signer()?;
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let revision_id = RevisionId::from(Oid::from_str(revision_id.as_str())?);
+		let reply_to = reply_to
+			.map(|id| CommentId::from_str(id.as_str()))
+			.transpose()?;
+		let location = location
+			.map(|location| -> Result<CodeLocation> {
+				Ok(CodeLocation {
+					commit: Oid::from_str(location.commit.as_str())?,
+					path: PathBuf::from(location.path),
+					old: None,
+					new: Some(CodeRange::Lines {
+						range: location.line_start as usize..location.line_end as usize,
+					}),
+				})
 			})
-		})
-		.filter_map(|info| {
-			let Ok(unknown) = env.to_js_value(&info) else {
-				return None;
-			};
-			return Some(unknown);
-		})
-		.collect::<Vec<_>>();
+			.transpose()?;
+
+		let mut patches = profile.patches_mut(&repo)?;
+		let mut patch = patches.get_mut(&PatchId::from_str(patch_id.as_str())?)?;
+		let comment_id = patch.comment(revision_id, body, reply_to, location, vec![], &signer)?;
 
-	Ok::<_, anyhow::Error>(infos)
+		Ok(comment_id.to_string())
+	})
 }
 
 #[napi]
-pub fn patches(rid: String) -> Result<Vec<Value>> {
-	let profile = DefaultContext.profile()?;
-	let aliases = profile.aliases();
-	let repo = profile
-		.storage
-		.repository(RepoId::from_urn(rid.as_str())?)?;
-	let mut patches = Vec::from_iter(profile.patches(&repo)?.list()?.filter_map(|result| {
-		match result {
-			Ok(x) => Some(x),
-			Err(_) => {
-				// TODO(lorenzleutgeb): Report error.
-				None
+pub fn set_patch_state(rid: String, patch_id: String, status: String) -> napi::Result<Value> {
+	with_hint(|| {
+		let oid = PatchId::from_str(patch_id.as_str())?;
+		let profile = DefaultContext.profile()?;
+		let signer = profile.signer()?;
+		let aliases = profile.aliases();
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let lifecycle = match status.as_str() {
+			"draft" => Lifecycle::Draft,
+			"open" => Lifecycle::Open,
+			"archived" => Lifecycle::Archived,
+			_ => anyhow::bail!("cannot change the state of a patch to `{status}`"),
+		};
+
+		let mut patches = profile.patches_mut(&repo)?;
+		let mut patch = patches.get_mut(&oid)?;
+		patch.lifecycle(lifecycle, &signer)?;
+
+		Ok(json::patch(oid.into(), patch.clone(), &repo, &aliases))
+	})
+}
+
+#[napi]
+pub fn review_patch(
+	rid: String,
+	patch_id: String,
+	revision_id: String,
+	verdict: Option<String>,
+	summary: Option<String>,
+) -> napi::Result<Value> {
+	with_hint(|| {
+		let oid = PatchId::from_str(patch_id.as_str())?;
+		let profile = DefaultContext.profile()?;
+		let signer = profile.signer()?;
+		let aliases = profile.aliases();
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let revision_id = RevisionId::from(Oid::from_str(revision_id.as_str())?);
+		let verdict = match verdict.as_deref() {
+			Some("accept") => Some(Verdict::Accept),
+			Some("reject") => Some(Verdict::Reject),
+			None => None,
+			Some(verdict) => anyhow::bail!("cannot review a patch with verdict `{verdict}`"),
+		};
+
+		let mut patches = profile.patches_mut(&repo)?;
+		let mut patch = patches.get_mut(&oid)?;
+		patch.review(revision_id, verdict, summary, vec![], &signer)?;
+
+		Ok(json::patch(oid.into(), patch.clone(), &repo, &aliases))
+	})
+}
+
+/// Returns the diff between two commits along with the content of the blobs it refers to,
+/// shaped like the response of `radicle-httpd`'s `/projects/:rid/diff/:base/:oid` endpoint.
+#[napi]
+pub fn diff(rid: String, base: String, oid: String) -> napi::Result<Value> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let surf = radicle_surf::Repository::open(repo.path())?;
+		let diff = surf.diff(Oid::from_str(base.as_str())?, Oid::from_str(oid.as_str())?)?;
+
+		let mut files = serde_json::Map::new();
+		for file in diff.files() {
+			let blob_oids = match file {
+				FileDiff::Added(added) => vec![added.new.oid],
+				FileDiff::Deleted(deleted) => vec![deleted.old.oid],
+				FileDiff::Modified(modified) => vec![modified.old.oid, modified.new.oid],
+				FileDiff::Moved(moved) => vec![moved.old.oid, moved.new.oid],
+				FileDiff::Copied(copied) => vec![copied.old.oid, copied.new.oid],
+			};
+			for blob_oid in blob_oids {
+				let blob = repo.backend.find_blob(blob_oid.into())?;
+				let binary = blob.is_binary();
+				let content = if binary {
+					String::new()
+				} else {
+					String::from_utf8_lossy(blob.content()).into_owned()
+				};
+				files.insert(
+					blob_oid.to_string(),
+					json!({ "id": blob_oid, "binary": binary, "content": content }),
+				);
 			}
 		}
-	}));
-	patches.sort_by(|(_, a), (_, b)| b.timestamp().cmp(&a.timestamp()));
-	Ok(patches
-		.iter()
-		.map(|(id, patch)| json::patch(*id, patch.clone(), &repo, &aliases))
-		.collect::<Vec<_>>())
+
+		// the commits of the range aren't needed by the extension so they're left out
+		Ok(json!({ "diff": diff, "commits": [], "files": files }))
+	})
+}
+
+/// Returns the entries of the directory at `path` as of the given commit, shaped like the
+/// response of `radicle-httpd`'s `/projects/:rid/tree/:sha/*path` endpoint.
+#[napi]
+pub fn tree(rid: String, commit: String, path: String) -> napi::Result<Value> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let surf = radicle_surf::Repository::open(repo.path())?;
+		let tree = surf.tree(Oid::from_str(commit.as_str())?, &path)?;
+
+		let entries = tree
+			.entries()
+			.iter()
+			.map(|entry| {
+				let kind = match entry.entry() {
+					EntryKind::Tree(_) => "tree",
+					EntryKind::Blob(_) => "blob",
+					EntryKind::Submodule { .. } => "submodule",
+				};
+				json!({
+					"name": entry.name(),
+					"path": Path::new(&path).join(entry.name()),
+					"oid": entry.object_id(),
+					"kind": kind,
+				})
+			})
+			.collect::<Vec<_>>();
+
+		Ok(json!({ "entries": entries, "name": tree.name(), "path": path }))
+	})
 }
 
+/// Returns the file at `path` as of the given commit, shaped like the response of
+/// `radicle-httpd`'s `/projects/:rid/blob/:sha/*path` endpoint.
 #[napi]
-pub fn patch(rid: String, patch_id: String) -> Result<Value> {
-	let oid = PatchId::from_str(patch_id.as_str())?;
-	let profile = DefaultContext.profile()?;
-	let aliases = profile.aliases();
-	let repo = profile
-		.storage
-		.repository(RepoId::from_urn(rid.as_str())?)?;
-
-	let patches = profile.patches(&repo)?;
-	let patch = patches.get(&oid)?.ok_or(Error::PatchNotFound)?;
-
-	Ok(json::patch(oid.into(), patch, &repo, &aliases))
+pub fn blob(rid: String, commit: String, path: String) -> napi::Result<Value> {
+	with_hint(|| {
+		let profile = DefaultContext.profile()?;
+		let repo = profile
+			.storage
+			.repository(RepoId::from_urn(rid.as_str())?)?;
+		let surf = radicle_surf::Repository::open(repo.path())?;
+		let blob = surf.blob(Oid::from_str(commit.as_str())?, &path)?;
+
+		let binary = blob.is_binary();
+		let content = if binary {
+			base64::engine::general_purpose::STANDARD.encode(blob.content())
+		} else {
+			String::from_utf8_lossy(blob.content()).into_owned()
+		};
+		let name = Path::new(&path)
+			.file_name()
+			.map(|name| name.to_string_lossy().into_owned())
+			.unwrap_or_default();
+
+		Ok(json!({ "name": name, "path": path, "binary": binary, "content": content }))
+	})
 }
@@ -1,12 +1,18 @@
 import type { ExtensionContext } from 'vscode'
-import { initExtensionContext } from './stores'
+import { initExtensionContext, useProjectStore } from './stores'
 import {
   logExtensionActivated,
   registerAllCommands,
+  registerAllCommentControllers,
   registerAllConfigWatchers,
   registerAllFileWatchers,
   registerAllViews,
   registerAllWebviewRestorators,
+  registerHttpdSupervisor,
+  registerNodeDiffContentProvider,
+  registerNodeStatusBarItem,
+  registerRadFileSystemProvider,
+  registerRadicleSourceControl,
 } from './helpers'
 import { validateRadCliInstallation, validateRadicleIdentityAuthentication } from './ux'
 import { setWhenClauseContext } from './utils'
@@ -20,11 +26,18 @@ export function activate(ctx: ExtensionContext) {
   registerAllConfigWatchers()
   registerAllFileWatchers()
   registerAllWebviewRestorators()
+  registerAllCommentControllers()
+  registerNodeDiffContentProvider()
+  registerRadFileSystemProvider()
+  registerRadicleSourceControl()
+  registerNodeStatusBarItem()
+  registerHttpdSupervisor()
 
   logExtensionActivated()
   validateRadCliInstallation({ minimizeUserNotifications: true })
   validateRadicleIdentityAuthentication({ minimizeUserNotifications: true })
   getNodeConnection().validate({ minimizeUserNotifications: true })
+  useProjectStore().refreshIsLocalIdentityDelegate()
 
   setWhenClauseContext('radicle.isExtensionActivated', true)
 }
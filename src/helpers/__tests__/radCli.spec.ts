@@ -0,0 +1,88 @@
+import { spawnSync } from 'node:child_process'
+import { homedir } from 'node:os'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { exec } from '../../utils'
+import { rad } from '../radCli'
+
+const config = new Map<string, string>()
+
+vi.mock('vscode', () => ({
+  window: { createOutputChannel: () => ({ append: vi.fn(), appendLine: vi.fn() }) },
+  workspace: {
+    workspaceFolders: undefined,
+    getConfiguration: () => ({ get: (key: string) => config.get(key) ?? '' }),
+  },
+  ConfigurationTarget: { Global: 1 },
+  ProgressLocation: { Notification: 15 },
+}))
+vi.mock('node:child_process', () => ({ spawn: vi.fn(), spawnSync: vi.fn() }))
+vi.mock('..', async () => ({
+  ...(await vi.importActual<typeof import('../config')>('../config')),
+  radCli: {},
+}))
+
+const pathToRadBinary = `/opt/my tools/$(id)/rad`
+const hostileArgs = [
+  'my alias',
+  'main; rm -rf ~',
+  '$(touch /tmp/pwned)',
+  '`touch /tmp/pwned`',
+  `it's "quoted"`,
+  '--help',
+  '-m',
+]
+
+describe('rad()', () => {
+  beforeEach(() => {
+    config.clear()
+    config.set('radicle.advanced.pathToRadBinary', pathToRadBinary)
+    vi.mocked(spawnSync).mockReset()
+    vi.mocked(spawnSync).mockReturnValue({
+      pid: 1,
+      output: [],
+      stdout: '',
+      stderr: '',
+      status: 0,
+      signal: null,
+    })
+  })
+
+  it.each(hostileArgs)('spawns the rad binary with the argument %j as-is', (arg) => {
+    exec(rad('auth', '--alias', arg))
+
+    expect(spawnSync).toHaveBeenCalledOnce()
+    expect(spawnSync).toHaveBeenCalledWith(
+      pathToRadBinary,
+      ['auth', '--alias', arg],
+      expect.objectContaining({ shell: false }),
+    )
+  })
+
+  it('passes the configured node home via the RAD_HOME env var', () => {
+    const pathToNodeHome = `/srv/radicle; touch /tmp/pwned/"$(id)"`
+    config.set('radicle.advanced.pathToNodeHome', pathToNodeHome)
+
+    const cmd = rad('self', '--nid')
+    exec(cmd)
+
+    expect(cmd).toEqual({
+      file: pathToRadBinary,
+      args: ['self', '--nid'],
+      env: { RAD_HOME: pathToNodeHome },
+    })
+    const [file, args, options] = vi.mocked(spawnSync).mock.calls[0] ?? []
+    expect(file).toBe(pathToRadBinary)
+    expect(args).toEqual(['self', '--nid'])
+    expect(options).toMatchObject({ shell: false, env: { RAD_HOME: pathToNodeHome } })
+  })
+
+  it('expands a leading `~` of the configured node home', () => {
+    config.set('radicle.advanced.pathToNodeHome', '~/my radicle')
+
+    expect(rad('self').env).toEqual({ RAD_HOME: `${homedir()}/my radicle` })
+  })
+
+  it('leaves RAD_HOME unset if no node home is configured', () => {
+    expect(rad('self').env).toBeUndefined()
+  })
+})
@@ -1,18 +1,40 @@
 import { type TextDocumentShowOptions, type Uri, commands, window } from 'vscode'
-import { getExtensionContext, usePatchStore } from '../stores'
-import { exec, log, showLog } from '../utils'
+import { getExtensionContext, useIssueStore, usePatchStore } from '../stores'
+import { execWithProgress, log, showLog } from '../utils'
 import {
   type FilechangeNode,
+  browseRadicleRepo,
+  changePatchState,
   checkOutDefaultBranch,
   checkOutPatch,
+  compareRevisions,
   copyToClipboardAndNotify,
+  createIssue,
+  createPatch,
   deAuthCurrentRadicleIdentity,
   launchAuthenticationFlow,
+  mergePatch,
+  rerenderIncomingOutgoingView,
+  rerenderNodeStatusView,
+  restartNode,
+  reviewPatch,
   selectAndCloneRadicleRepo,
+  startNode,
+  stopComparingRevisions,
+  stopNode,
   troubleshootRadCliInstallation,
+  updatePatch,
 } from '../ux'
-import type { AugmentedPatch, Patch } from '../types'
-import { createOrShowWebview, getRadCliRef } from '.'
+import type { AugmentedIssue, AugmentedPatch, Issue, Patch } from '../types'
+import {
+  type PatchDiffSide,
+  createOrShowWebview,
+  publishInlineComment,
+  rad,
+  refreshNodeState,
+  refreshRadicleSourceControl,
+  trackPatchDiffEditor,
+} from '.'
 
 interface RadCliCmdMappedToVscodeCmdId {
   /**
@@ -25,19 +47,31 @@ interface RadCliCmdMappedToVscodeCmdId {
    */
   vscodeCmdId: `radicle.${string}`
   /**
-   * The actual sub-command to be run by the Radicle CLI. Value will be appended to a
-   * reference to the rad binary before executing it in the shell.
+   * The actual sub-command to be run by the Radicle CLI. Value will be split on spaces into
+   * the arguments passed to the rad binary, so it must not contain any quoted ones.
    *
    * @example 'sync --fetch' // `rad sync --fetch`
    */
   radCliCmdSuffix: string
+  /**
+   * Called after the sub-command has been run successfully.
+   */
+  onDidSucceed?: () => unknown
 }
 
 const simpleRadCliCmdsToRegisterInVsCode: Parameters<
   typeof registerSimpleRadCliCmdsAsVsCodeCmds
 >['0'] = [
-  { vscodeCmdId: 'radicle.sync', radCliCmdSuffix: 'sync' },
-  { vscodeCmdId: 'radicle.fetch', radCliCmdSuffix: 'sync --fetch' },
+  {
+    vscodeCmdId: 'radicle.sync',
+    radCliCmdSuffix: 'sync',
+    onDidSucceed: rerenderIncomingOutgoingView,
+  },
+  {
+    vscodeCmdId: 'radicle.fetch',
+    radCliCmdSuffix: 'sync --fetch',
+    onDidSucceed: rerenderIncomingOutgoingView,
+  },
   { vscodeCmdId: 'radicle.announce', radCliCmdSuffix: 'sync --announce' },
 ] as const
 
@@ -57,30 +91,50 @@ function registerSimpleRadCliCmdsAsVsCodeCmds(
     getExtensionContext().subscriptions.push(
       commands.registerCommand(cmdConfig.vscodeCmdId, async () => {
         const didAuth = await launchAuthenticationFlow()
-        const didCmdSucceed =
-          didAuth &&
-          (await window.withProgress(
-            { location: { viewId: 'cli-commands' } },
-            // eslint-disable-next-line require-await, @typescript-eslint/require-await
-            async () => {
-              return Boolean(
-                exec(`${getRadCliRef()} ${cmdConfig.radCliCmdSuffix}`, {
-                  cwd: '$workspaceDir',
-                  shouldLog: true,
-                }),
-              )
-            },
-          ))
+        const { output, wasCancelled } = didAuth
+          ? await execWithProgress(rad(...cmdConfig.radCliCmdSuffix.split(' ')), {
+              title: `Running "rad ${cmdConfig.radCliCmdSuffix}"`,
+              cwd: '$workspaceDir',
+              timeout: 0,
+              shouldLog: true,
+            })
+          : { output: undefined, wasCancelled: false }
+        if (wasCancelled) {
+          return
+        }
+
+        const didCmdSucceed = Boolean(output)
+        if (didCmdSucceed) {
+          cmdConfig.onDidSucceed?.()
+          window.showInformationMessage(`Command "rad ${cmdConfig.radCliCmdSuffix}" succeeded`)
+
+          return
+        }
+
+        // the most common cause of failure, which the user can resolve right away
+        if (didAuth && (await refreshNodeState()) === false) {
+          const startNodeButton = 'Start Node and Retry'
+          const userSelection = await window.showErrorMessage(
+            `Command "rad ${cmdConfig.radCliCmdSuffix}" failed because the Radicle node \
+            isn't running`,
+            startNodeButton,
+            button,
+          )
+          if (userSelection === startNodeButton) {
+            const didStart = await startNode()
+            didStart && commands.executeCommand(cmdConfig.vscodeCmdId)
+          } else if (userSelection === button) {
+            showLog()
+          }
 
-        didCmdSucceed
-          ? window.showInformationMessage(
-              `Command "rad ${cmdConfig.radCliCmdSuffix}" succeeded`,
-            )
-          : window
-              .showErrorMessage(`Command "rad ${cmdConfig.radCliCmdSuffix}" failed`, button)
-              .then((userSelection) => {
-                userSelection === button && showLog()
-              })
+          return
+        }
+
+        window
+          .showErrorMessage(`Command "rad ${cmdConfig.radCliCmdSuffix}" failed`, button)
+          .then((userSelection) => {
+            userSelection === button && showLog()
+          })
       }),
     ),
   )
@@ -96,17 +150,75 @@ export function registerAllCommands(): void {
   registerVsCodeCmd('radicle.showExtensionLog', showLog)
   registerVsCodeCmd('radicle.deAuthCurrentIdentity', deAuthCurrentRadicleIdentity)
   registerVsCodeCmd('radicle.clone', selectAndCloneRadicleRepo)
+  registerVsCodeCmd('radicle.browseRepo', browseRadicleRepo)
   registerVsCodeCmd('radicle.collapsePatches', () => {
     commands.executeCommand('workbench.actions.treeView.patches-view.collapseAll')
   })
   registerVsCodeCmd('radicle.refreshPatches', () => {
     usePatchStore().resetAllPatches()
   })
+  registerVsCodeCmd('radicle.refreshIssues', () => {
+    useIssueStore().resetAllIssues()
+  })
+  registerVsCodeCmd('radicle.refreshSourceControl', refreshRadicleSourceControl)
+  registerVsCodeCmd('radicle.refreshIncomingOutgoing', rerenderIncomingOutgoingView)
+  registerVsCodeCmd('radicle.refreshNodeStatus', async () => {
+    await refreshNodeState()
+    rerenderNodeStatusView()
+  })
+  registerVsCodeCmd('radicle.startNode', startNode)
+  registerVsCodeCmd('radicle.stopNode', stopNode)
+  registerVsCodeCmd('radicle.restartNode', restartNode)
+  registerVsCodeCmd('radicle.createIssue', createIssue)
+  registerVsCodeCmd('radicle.copyIssueId', async (issue: Partial<Issue> | undefined) => {
+    typeof issue?.id === 'string' && (await copyToClipboardAndNotify(issue.id))
+  })
   registerVsCodeCmd('radicle.checkoutPatch', checkOutPatch)
   registerVsCodeCmd('radicle.checkoutDefaultBranch', checkOutDefaultBranch)
   registerVsCodeCmd('radicle.copyPatchId', async (patch: Partial<Patch> | undefined) => {
     typeof patch?.id === 'string' && (await copyToClipboardAndNotify(patch.id))
   })
+  registerVsCodeCmd('radicle.createPatch', createPatch)
+  registerVsCodeCmd('radicle.compareRevisions', async (patch: Partial<Patch> | undefined) => {
+    await compareRevisions(typeof patch?.id === 'string' ? { id: patch.id } : undefined)
+  })
+  registerVsCodeCmd('radicle.stopComparingRevisions', (patch: AugmentedPatch) => {
+    stopComparingRevisions(patch)
+  })
+  registerVsCodeCmd('radicle.updatePatch', updatePatch)
+  registerVsCodeCmd('radicle.reviewPatch', async (patch: Partial<Patch> | undefined) => {
+    await reviewPatch(typeof patch?.id === 'string' ? { id: patch.id } : undefined)
+  })
+  registerVsCodeCmd('radicle.mergePatch', async (patch: Partial<Patch> | undefined) => {
+    await mergePatch(typeof patch?.id === 'string' ? { id: patch.id } : undefined)
+  })
+  registerVsCodeCmd('radicle.archivePatch', async (patch: Partial<Patch> | undefined) => {
+    await changePatchState(
+      typeof patch?.id === 'string' ? { id: patch.id } : undefined,
+      'archived',
+    )
+  })
+  registerVsCodeCmd('radicle.reopenPatch', async (patch: Partial<Patch> | undefined) => {
+    await changePatchState(
+      typeof patch?.id === 'string' ? { id: patch.id } : undefined,
+      'open',
+    )
+  })
+  registerVsCodeCmd('radicle.markPatchAsReady', async (patch: Partial<Patch> | undefined) => {
+    await changePatchState(
+      typeof patch?.id === 'string' ? { id: patch.id } : undefined,
+      'open',
+    )
+  })
+  registerVsCodeCmd(
+    'radicle.convertPatchToDraft',
+    async (patch: Partial<Patch> | undefined) => {
+      await changePatchState(
+        typeof patch?.id === 'string' ? { id: patch.id } : undefined,
+        'draft',
+      )
+    },
+  )
   registerVsCodeCmd(
     'radicle.openDiff',
     async (
@@ -114,11 +226,14 @@ export function registerAllCommands(): void {
       changed: Uri,
       label: string,
       columnOrOptions: number | TextDocumentShowOptions,
+      patchDiffSides?: { original: PatchDiffSide; changed: PatchDiffSide },
     ) => {
       await commands.executeCommand('vscode.diff', original, changed, label, columnOrOptions)
       commands.executeCommand('workbench.action.files.setActiveEditorReadonlyInSession')
+      patchDiffSides && trackPatchDiffEditor(original, changed, patchDiffSides)
     },
   )
+  registerVsCodeCmd('radicle.publishInlineComment', publishInlineComment)
   registerVsCodeCmd(
     'radicle.openOriginalVersionOfPatchedFile',
     async (node: FilechangeNode | undefined) => {
@@ -152,4 +267,7 @@ export function registerAllCommands(): void {
   registerVsCodeCmd('radicle.viewPatchDetails', (patch: AugmentedPatch) => {
     createOrShowWebview(getExtensionContext(), patch)
   })
+  registerVsCodeCmd('radicle.viewIssueDetails', (issue: AugmentedIssue) => {
+    createOrShowWebview(getExtensionContext(), issue)
+  })
 }
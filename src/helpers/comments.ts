@@ -0,0 +1,305 @@
+import {
+  type CommentController,
+  CommentMode,
+  type CommentReply,
+  type CommentThread,
+  CommentThreadCollapsibleState,
+  MarkdownString,
+  Range,
+  type Uri,
+  type Comment as VscodeComment,
+  comments,
+  window,
+  workspace,
+} from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { getExtensionContext, usePatchStore } from '../stores'
+import type { CodeLocation, Comment, Patch, RadicleIdentity, Revision } from '../types'
+import {
+  getFirstAndLatestRevisions,
+  getIdentityAliasOrId,
+  log,
+  shortenHash,
+  showLog,
+} from '../utils'
+import { launchAuthenticationFlow, openSettingsFocusedAtConfig } from '../ux'
+import { refetchPatchAndUpdateWebview } from '.'
+
+/**
+ * Identifies the version of a patched file shown on one side of a diff editor opened via
+ * the `radicle.openDiff` command.
+ */
+export interface PatchDiffSide {
+  patchId: Patch['id']
+  /**
+   * The path of the file, relative to the repo root.
+   */
+  path: string
+  /**
+   * The hash of the commit the file's version belongs to.
+   */
+  commit: string
+}
+
+const commentControllerId = 'radicle-patch-comments'
+let commentController: CommentController | undefined
+
+/**
+ * The diff editor sides on which inline comments are rendered, keyed by their document's uri.
+ */
+const trackedDiffSides = new Map<string, PatchDiffSide>()
+const renderedThreads = new Map<string, CommentThread[]>()
+const threadRoots = new WeakMap<
+  CommentThread,
+  { commentId: Comment['id']; revisionId: Revision['id'] }
+>()
+let hasExplainedUnanchorableComments = false
+
+/**
+ * Registers the controller rendering inline patch comments as comment threads on the diff
+ * editors opened via the `radicle.openDiff` command and allowing new ones to be authored.
+ */
+export function registerAllCommentControllers(): void {
+  commentController = comments.createCommentController(
+    commentControllerId,
+    'Radicle Patch Comments',
+  )
+  commentController.options = {
+    placeHolder: 'Comment on the selected lines using Markdown',
+    prompt: 'Add a Radicle comment',
+  }
+  commentController.commentingRangeProvider = {
+    provideCommentingRanges: async (document) => {
+      if (!trackedDiffSides.has(document.uri.toString())) {
+        return undefined
+      } else if (!(await getNodeConnection().canAnchorComments())) {
+        explainUnanchorableComments()
+
+        return undefined
+      }
+
+      return [new Range(0, 0, Math.max(document.lineCount - 1, 0), 0)]
+    },
+  }
+
+  getExtensionContext().subscriptions.push(
+    commentController,
+    workspace.onDidCloseTextDocument((document) => {
+      const uri = document.uri.toString()
+      disposeRenderedThreads(uri)
+      trackedDiffSides.delete(uri)
+    }),
+  )
+}
+
+/**
+ * Starts rendering the inline comments of the patch on both sides of a freshly opened diff
+ * editor and allows authoring new ones there.
+ */
+export function trackPatchDiffEditor(
+  originalUri: Uri,
+  changedUri: Uri,
+  sides: { original: PatchDiffSide; changed: PatchDiffSide },
+): void {
+  trackedDiffSides.set(originalUri.toString(), sides.original)
+  trackedDiffSides.set(changedUri.toString(), sides.changed)
+
+  renderInlineCommentThreads(originalUri)
+  renderInlineCommentThreads(changedUri)
+}
+
+/**
+ * Re-renders the inline comment threads on all tracked diff editors of the given patch,
+ * e.g. after it got refetched.
+ */
+export function rerenderInlineCommentThreadsOfPatch(patchId: Patch['id']): void {
+  trackedDiffSides.forEach((side, uri) => {
+    const document =
+      side.patchId === patchId &&
+      workspace.textDocuments.find((doc) => doc.uri.toString() === uri)
+    document && renderInlineCommentThreads(document.uri)
+  })
+}
+
+/**
+ * Publishes the text the user typed into a comment thread of a tracked diff editor. If the
+ * thread already holds a comment, the new one is posted as a reply to it, otherwise as a new
+ * comment anchored to the thread's line range on the patch's latest revision.
+ *
+ * Replies inherit the location of the comment they reply to, so they can be published on
+ * any backend, whereas new threads can only be started on one anchoring comments.
+ */
+export async function publishInlineComment(reply: CommentReply): Promise<void> {
+  const { thread, text } = reply
+  const side = trackedDiffSides.get(thread.uri.toString())
+  const patch = side && usePatchStore().findPatchById(side.patchId)
+  const body = text.trim()
+  if (!side || !patch || !body) {
+    return
+  }
+
+  const { data: rid } = await getNodeConnection().getCurrentProjectId()
+  if (!rid) {
+    log('Failed resolving RID', 'error')
+
+    return
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = 'Cannot comment without an authenticated Radicle identity.'
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return
+  }
+
+  const threadRoot = threadRoots.get(thread)
+  const range = thread.range ?? new Range(0, 0, 0, 0)
+  const revisionId =
+    threadRoot?.revisionId ?? getFirstAndLatestRevisions(patch).latestRevision.id
+  const { error } = await getNodeConnection().commentOnPatch(rid, patch.id, {
+    revisionId,
+    body,
+    replyTo: threadRoot?.commentId,
+    location: threadRoot
+      ? undefined
+      : {
+          path: side.path,
+          commit: side.commit,
+          lines: { start: range.start.line, end: range.end.line + 1 },
+        },
+  })
+  if (error) {
+    const button = 'Show Output'
+    const msg = `Failed commenting on revision ${shortenHash(revisionId)}`
+    log(`${msg}: ${error.message}`, 'error')
+    window.showErrorMessage(msg, button).then((userSelection) => {
+      userSelection === button && showLog()
+    })
+
+    return
+  }
+
+  // threads not rendered by us are drafts created by VS Code when the user started typing
+  const isDraftThread = !renderedThreads.get(thread.uri.toString())?.includes(thread)
+  isDraftThread && thread.dispose()
+
+  await refetchPatchAndUpdateWebview(patch.id)
+  rerenderInlineCommentThreadsOfPatch(patch.id)
+}
+
+/**
+ * Lets the user know, once per session, why new comment threads can't be started on the
+ * lines of a diff editor.
+ */
+function explainUnanchorableComments(): void {
+  if (hasExplainedUnanchorableComments) {
+    return
+  }
+  hasExplainedUnanchorableComments = true
+
+  const button = 'Review Setting'
+  const msg = `Commenting on a patch's lines requires connecting to the Radicle node via its \
+    Node API, since the Radicle HTTP API and CLI can't anchor comments to code. Replying to \
+    existing comments works regardless.`
+  window.showInformationMessage(msg, button).then((userSelection) => {
+    userSelection === button && openSettingsFocusedAtConfig('radicle.advanced.useNodeApi')
+  })
+}
+
+function renderInlineCommentThreads(uri: Uri): void {
+  disposeRenderedThreads(uri.toString())
+
+  const side = trackedDiffSides.get(uri.toString())
+  const patch = side && usePatchStore().findPatchById(side.patchId)
+  if (!commentController || !side || !patch) {
+    return
+  }
+  const controller = commentController
+
+  const discussionThreads = patch.revisions.flatMap((revision) =>
+    revision.discussions
+      .filter(
+        (comment) =>
+          !comment.replyTo && comment.location && isLocatedAt(comment.location, side),
+      )
+      .map((rootComment) => {
+        const thread = controller.createCommentThread(
+          uri,
+          getRange(rootComment.location as CodeLocation),
+          [rootComment, ...getAllRepliesTo(rootComment, revision.discussions)].map((comment) =>
+            toVscodeComment(comment.body, comment.author, comment.timestamp),
+          ),
+        )
+        thread.label = `Comment on revision ${shortenHash(revision.id)}`
+        threadRoots.set(thread, { commentId: rootComment.id, revisionId: revision.id })
+        thread.canReply = true
+
+        return thread
+      }),
+  )
+
+  const reviewThreads = patch.revisions.flatMap((revision) =>
+    revision.reviews.flatMap((review) =>
+      (review.inline ?? [])
+        .filter((inlineComment) => isLocatedAt(inlineComment.location, side))
+        .map((inlineComment) => {
+          const thread = controller.createCommentThread(
+            uri,
+            getRange(inlineComment.location),
+            [toVscodeComment(inlineComment.comment, review.author, inlineComment.timestamp)],
+          )
+          thread.label = `Review of revision ${shortenHash(revision.id)}`
+          // inline review comments have no id to reply to
+          thread.canReply = false
+
+          return thread
+        }),
+    ),
+  )
+
+  const threads = [...discussionThreads, ...reviewThreads]
+  threads.forEach((thread) => {
+    thread.collapsibleState = CommentThreadCollapsibleState.Expanded
+  })
+  renderedThreads.set(uri.toString(), threads)
+}
+
+function disposeRenderedThreads(uri: string): void {
+  renderedThreads.get(uri)?.forEach((thread) => {
+    thread.dispose()
+  })
+  renderedThreads.delete(uri)
+}
+
+function isLocatedAt(location: CodeLocation, side: PatchDiffSide): boolean {
+  return location.path === side.path && location.commit === side.commit
+}
+
+function getRange(location: CodeLocation): Range {
+  // `lines.end` is exclusive, whereas a `Range`'s end line is inclusive
+  const endLine = Math.max(location.lines.start, location.lines.end - 1)
+
+  return new Range(location.lines.start, 0, endLine, 0)
+}
+
+function getAllRepliesTo(comment: Comment, discussion: Comment[]): Comment[] {
+  const directReplies = discussion.filter((reply) => reply.replyTo === comment.id)
+
+  return directReplies
+    .flatMap((reply) => [reply, ...getAllRepliesTo(reply, discussion)])
+    .sort((c1, c2) => c1.timestamp - c2.timestamp)
+}
+
+function toVscodeComment(
+  body: string,
+  author: RadicleIdentity,
+  timestamp: number,
+): VscodeComment {
+  return {
+    body: new MarkdownString(body),
+    mode: CommentMode.Preview,
+    author: { name: getIdentityAliasOrId(author) },
+    timestamp: new Date(timestamp * 1000),
+  }
+}
@@ -1,3 +1,4 @@
+import { homedir } from 'node:os'
 import { ConfigurationTarget, workspace } from 'vscode'
 import { assertUnreachable, exec } from '../utils'
 
@@ -13,6 +14,8 @@ export interface ExtensionConfig {
   'radicle.advanced.pathToRadBinary': string
   'radicle.advanced.pathToNodeHome': string
   'radicle.advanced.httpApiEndpoint': string
+  'radicle.advanced.spawnHttpd': boolean
+  'radicle.advanced.pathToHttpdBinary': string
   'radicle.advanced.useNodeApi': boolean
   'radicle.hideTempFiles': boolean
 }
@@ -32,10 +35,12 @@ export function getConfig<K extends keyof ExtensionConfig>(
     case 'radicle.advanced.pathToRadBinary':
     case 'radicle.advanced.pathToNodeHome':
     case 'radicle.advanced.httpApiEndpoint':
+    case 'radicle.advanced.pathToHttpdBinary':
       // if the config has the value of the empty string (default) then return `undefined`
       // @ts-expect-error
       // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
       return config.get<ExtensionConfig[K]>(configKey)?.trim() || undefined
+    case 'radicle.advanced.spawnHttpd':
     case 'radicle.advanced.useNodeApi':
     case 'radicle.hideTempFiles':
       return config.get<ExtensionConfig[K]>(configKey)
@@ -57,7 +62,9 @@ export function setConfig<K extends keyof ExtensionConfig>(
     case 'radicle.advanced.pathToRadBinary':
     case 'radicle.advanced.pathToNodeHome':
     case 'radicle.advanced.httpApiEndpoint':
+    case 'radicle.advanced.pathToHttpdBinary':
       return config.update(configKey, value, ConfigurationTarget.Global)
+    case 'radicle.advanced.spawnHttpd':
     case 'radicle.advanced.useNodeApi':
     case 'radicle.hideTempFiles':
       return config.update(configKey, value, ConfigurationTarget.Global)
@@ -81,6 +88,14 @@ export function getFullDefaultPathToRadBinaryDirectory(): string | undefined {
 
 export const defaultRadBinaryLocation = '~/.radicle/bin/rad' // as per https://radicle.xyz/install
 
+/**
+ * Expands a leading `~` of a path to the user's home directory, as a shell would do. Needed
+ * for paths of executables or passed via env vars to commands executed without a shell.
+ */
+export function expandHomeDir(path: string): string {
+  return path.replace(/^~(?=\/|$)/, homedir())
+}
+
 /**
  * Resolves the default path to the Radicle CLI binary _after having confirmed_ that the binary
  * is indeed there and accessible for command execution.
@@ -105,7 +120,7 @@ export function getValidatedPathToRadBinaryWhenAliased(): string | undefined {
     return undefined
   }
 
-  const isBinaryAtAliasedPath = Boolean(exec(aliasedPath))
+  const isBinaryAtAliasedPath = Boolean(exec({ file: aliasedPath, args: [] }))
 
   return isBinaryAtAliasedPath ? aliasedPath : undefined
 }
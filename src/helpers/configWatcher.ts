@@ -5,8 +5,14 @@ import {
   validateRadCliInstallation,
   validateRadicleIdentityAuthentication,
 } from '../ux/'
-import { getExtensionContext, usePatchStore } from '../stores'
-import { type ExtensionConfig, resetHttpdConnection } from '.'
+import { getExtensionContext, useIssueStore, usePatchStore, useProjectStore } from '../stores'
+import { getNodeConnection } from '../utils/nodeConnection'
+import {
+  type ExtensionConfig,
+  applySpawnHttpdConfig,
+  resetHttpdConnection,
+  stopSupervisedHttpd,
+} from '.'
 
 function onConfigChange(
   configKey: keyof ExtensionConfig,
@@ -42,6 +48,8 @@ const configWatchers = [
       // no need to notify since we check AND notify on rad command execution
       validateRadicleIdentityAuthentication({ minimizeUserNotifications: true })
       usePatchStore().resetAllPatches()
+      useIssueStore().resetAllIssues()
+      useProjectStore().refreshIsLocalIdentityDelegate()
     },
   },
   {
@@ -50,6 +58,28 @@ const configWatchers = [
       resetHttpdConnection()
       validateHttpdConnection()
       usePatchStore().resetAllPatches()
+      useIssueStore().resetAllIssues()
+      useProjectStore().refreshIsLocalIdentityDelegate()
+    },
+  },
+  {
+    configKey: 'radicle.advanced.useNodeApi',
+    onConfigChange: () => {
+      getNodeConnection().validate({ minimizeUserNotifications: true })
+      usePatchStore().resetAllPatches()
+      useIssueStore().resetAllIssues()
+      useProjectStore().refreshIsLocalIdentityDelegate()
+    },
+  },
+  {
+    configKey: 'radicle.advanced.spawnHttpd',
+    onConfigChange: applySpawnHttpdConfig,
+  },
+  {
+    configKey: 'radicle.advanced.pathToHttpdBinary',
+    onConfigChange: async () => {
+      await stopSupervisedHttpd()
+      await applySpawnHttpdConfig()
     },
   },
   {
@@ -1,8 +1,20 @@
 import { type $Fetch, FetchError, type FetchOptions, type FetchResponse, ofetch } from 'ofetch'
 import type { XOR } from 'ts-xor'
-import type { DiffResponse, HttpdRoot, Patch, PatchStatus, Project } from '../types'
+import type {
+  Blob,
+  DiffResponse,
+  HttpdNode,
+  HttpdRoot,
+  Issue,
+  IssueStatus,
+  Patch,
+  PatchStatus,
+  Project,
+  Tree,
+} from '../types'
 import { log } from '../utils'
 import { getConfig } from './config'
+import { getSupervisedHttpdEndpoint } from './httpdSupervisor'
 
 // if we ever use a proper reactive global store like pinia, `doFetch()` should move in there
 // and a watcher should run `resetHttpdConnection()` upon change of config
@@ -41,21 +53,6 @@ export type FetchFromHttpdReturn<Data extends object> = Promise<
  * // use `projects` ...
  * ```
  *
- * @example PATCH request with error handling
- * ```ts
- * const { error } = await fetchFromHttpd(
- *   `/projects/${projectId}/patches/${patchId}`, {
- *     method: 'PATCH',
- *     body: { state: 'merged' },
- *   },
- * )
- * if (error) {
- *   notifyUserAboutFetchError(error)
- *   return false
- * }
- * return true
- * ```
- *
  * @param path The relative path (as seen from the API's root) to the resource we want to access.
  * @param options Optionally additional request options like HTTP verb or request body.
  *
@@ -70,10 +67,6 @@ export type FetchFromHttpdReturn<Data extends object> = Promise<
  *
  * Signatures with non-`GET` `method`, should always have that field required.
  */
-export async function fetchFromHttpd(
-  path: `/projects/rad:${string}/patches/${string}`,
-  options: FetchOptions<'json'> & { method: 'PATCH'; body: { state: PatchStatus } },
-): FetchFromHttpdReturn<Patch>
 export async function fetchFromHttpd(
   path: `/projects/rad:${string}/patches/${string}`,
   options?: FetchOptions<'json'> & { method?: 'GET' },
@@ -82,6 +75,22 @@ export async function fetchFromHttpd(
   path: `/projects/rad:${string}/patches`,
   options?: FetchOptions<'json'> & { query?: { state: PatchStatus }; method?: 'GET' },
 ): FetchFromHttpdReturn<Patch[]>
+export async function fetchFromHttpd(
+  path: `/projects/rad:${string}/issues/${string}`,
+  options?: FetchOptions<'json'> & { method?: 'GET' },
+): FetchFromHttpdReturn<Issue>
+export async function fetchFromHttpd(
+  path: `/projects/rad:${string}/issues`,
+  options?: FetchOptions<'json'> & { query?: { state: IssueStatus }; method?: 'GET' },
+): FetchFromHttpdReturn<Issue[]>
+export async function fetchFromHttpd(
+  path: `/projects/rad:${string}/tree/${string}`,
+  options?: FetchOptions<'json'> & { method?: 'GET' },
+): FetchFromHttpdReturn<Tree>
+export async function fetchFromHttpd(
+  path: `/projects/rad:${string}/blob/${string}`,
+  options?: FetchOptions<'json'> & { method?: 'GET' },
+): FetchFromHttpdReturn<Blob>
 export async function fetchFromHttpd<RevBase extends string, RevOid extends string>(
   path: `/projects/rad:${string}/diff/${RevBase}/${RevOid}`,
   options?: FetchOptions<'json'> & { method?: 'GET' },
@@ -94,6 +103,10 @@ export async function fetchFromHttpd(
   path: '/projects',
   options: FetchOptions<'json'> & { query: { show: 'pinned' | 'all' }; method?: 'GET' },
 ): FetchFromHttpdReturn<Project[]>
+export async function fetchFromHttpd(
+  path: '/node',
+  options?: FetchOptions<'json'> & { method?: 'GET' },
+): FetchFromHttpdReturn<HttpdNode>
 export async function fetchFromHttpd(
   path: '/',
   options?: FetchOptions<'json'> & { method?: 'GET' },
@@ -130,7 +143,8 @@ export async function fetchFromHttpd<Data extends object>(
 }
 
 /**
- * Resolves the root URL of the Radicle HTTP API based on the value set in the settings.
+ * Resolves the root URL of the Radicle HTTP API based on the value set in the settings,
+ * unless overridden by the endpoint of the `radicle-httpd` spawned by the extension.
  *
  * POST-CONDITIONS:
  * - the returned URL doesn't contain a trailing `/` char
@@ -142,7 +156,8 @@ export async function fetchFromHttpd<Data extends object>(
 function getResolvedHttpdRootUrl(): string {
   const apiRootPath = '/api/v1'
   const httpEndpoint = removeTrailingSlashes(
-    getConfig('radicle.advanced.httpApiEndpoint') ??
+    getSupervisedHttpdEndpoint() ??
+      getConfig('radicle.advanced.httpApiEndpoint') ??
       '<vscode-settings.radicle.advanced.httpApiEndpoint must not be empty!>',
   )
 
@@ -2,7 +2,11 @@ import { RelativePattern, Uri, workspace } from 'vscode'
 import { getRepoRoot, getWorkspaceFolderPaths, setWhenClauseContext } from '../utils'
 import { validateRadCliInstallation } from '../ux'
 import { getExtensionContext, useGitStore } from '../stores'
-import { getFullDefaultPathToRadBinaryDirectory, isRadInitialized } from '.'
+import {
+  getFullDefaultPathToRadBinaryDirectory,
+  isRadInitialized,
+  refreshRadicleSourceControl,
+} from '.'
 
 interface FileWatcherConfig {
   glob:
@@ -41,6 +45,7 @@ const notInWorkspaceFileWatchers = [
       ),
     handler: () => {
       setWhenClauseContext('radicle.isRadInitialized', isRadInitialized())
+      refreshRadicleSourceControl()
     },
     immediate: true,
   },
@@ -56,6 +61,18 @@ const notInWorkspaceFileWatchers = [
       ),
     handler: useGitStore().refreshCurentBranch,
   },
+  {
+    glob: () =>
+      new RelativePattern(
+        // `getRepoRoot()` will return undefined if user opens the extension on
+        // a non-git-initialized folder, pointing our watcher to the wrong path.
+        // We're doing a best effort using the first workspace folder instead
+        // in case it is created later.
+        Uri.file(`${getRepoRoot() ?? getWorkspaceFolderPaths()?.[0] ?? ''}/.git/`),
+        '{refs/**,packed-refs}',
+      ),
+    handler: refreshRadicleSourceControl,
+  },
   // installation with package manager
   (() => {
     switch (process.platform) {
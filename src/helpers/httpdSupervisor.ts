@@ -0,0 +1,277 @@
+import { type ChildProcess, spawn } from 'node:child_process'
+import { existsSync } from 'node:fs'
+import { type AddressInfo, createServer } from 'node:net'
+import Path from 'node:path'
+import { createInterface } from 'node:readline'
+import { window } from 'vscode'
+import { ofetch } from 'ofetch'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { getExtensionContext, useIssueStore, usePatchStore } from '../stores'
+import { appendToLog, log, showLog } from '../utils'
+import { defaultRadBinaryLocation, expandHomeDir, getConfig } from './config'
+import { resetHttpdConnection } from './fetchFromHttpd'
+
+interface SupervisedHttpd {
+  process: ChildProcess
+  /**
+   * The endpoint the process listens at, e.g. `http://127.0.0.1:41543`.
+   */
+  endpoint: string
+  /**
+   * Whether the process has started serving requests.
+   */
+  isReady: boolean
+  /**
+   * Resolves once the process has exited, for whatever reason.
+   */
+  exited: Promise<void>
+}
+
+/**
+ * How many times in a row `radicle-httpd` may crash shortly after being spawned before
+ * giving up on restarting it.
+ */
+const maxConsecutiveCrashes = 5
+/**
+ * How long `radicle-httpd` must have been running for to no longer count its crash as
+ * consecutive to the previous one.
+ */
+const stableUptimeMs = 60_000
+
+let supervisedHttpd: SupervisedHttpd | undefined
+let isSupervising = false
+let consecutiveCrashCount = 0
+let restartTimeout: NodeJS.Timeout | undefined
+
+/**
+ * Resolves the endpoint of the `radicle-httpd` process spawned by the extension, which
+ * overrides the one configured by the user for as long as it's running.
+ *
+ * @returns The endpoint if the extension is supervising a running process that is
+ * ready to serve requests, otherwise `undefined`.
+ */
+export function getSupervisedHttpdEndpoint(): string | undefined {
+  return supervisedHttpd?.isReady ? supervisedHttpd.endpoint : undefined
+}
+
+/**
+ * Spawns a `radicle-httpd` process on a free local port, if the user has opted into it via
+ * config, and keeps it running for as long as the extension is, restarting it whenever it
+ * crashes. Its output gets piped into the extension's log.
+ */
+export function registerHttpdSupervisor(): void {
+  getExtensionContext().subscriptions.push({
+    dispose: () => {
+      stopSupervisedHttpd()
+    },
+  })
+
+  getConfig('radicle.advanced.spawnHttpd') && startSupervisedHttpd()
+}
+
+/**
+ * Starts or stops supervising `radicle-httpd` to match the current config.
+ */
+export async function applySpawnHttpdConfig(): Promise<void> {
+  if (getConfig('radicle.advanced.spawnHttpd')) {
+    await startSupervisedHttpd()
+  } else {
+    await stopSupervisedHttpd()
+    onDidChangeHttpdEndpoint()
+  }
+}
+
+/**
+ * Spawns `radicle-httpd` and starts supervising it, unless already doing so.
+ *
+ * @returns `true` if the process is ready to serve requests, otherwise `false`.
+ */
+export async function startSupervisedHttpd(): Promise<boolean> {
+  if (isSupervising) {
+    return Boolean(supervisedHttpd?.isReady)
+  }
+
+  isSupervising = true
+  consecutiveCrashCount = 0
+
+  return await spawnHttpd()
+}
+
+/**
+ * Stops supervising `radicle-httpd` and kills its process, if any.
+ */
+export async function stopSupervisedHttpd(): Promise<void> {
+  isSupervising = false
+  clearTimeout(restartTimeout)
+
+  const httpd = supervisedHttpd
+  supervisedHttpd = undefined
+  if (httpd && httpd.process.exitCode === null) {
+    httpd.process.kill()
+    await httpd.exited
+  }
+}
+
+async function spawnHttpd(): Promise<boolean> {
+  const binary = getHttpdBinaryRef()
+  const port = await findFreePort()
+  const listenAddress = `127.0.0.1:${port}`
+  const configPathToNodeHome = getConfig('radicle.advanced.pathToNodeHome')
+
+  log(`Spawning "${binary} --listen ${listenAddress}"...`, 'info')
+  const childProcess = spawn(binary, ['--listen', listenAddress], {
+    env: {
+      ...process.env,
+      ...(configPathToNodeHome ? { RAD_HOME: expandHomeDir(configPathToNodeHome) } : {}),
+    },
+  })
+  createInterface({ input: childProcess.stdout }).on('line', pipeToLog)
+  createInterface({ input: childProcess.stderr }).on('line', pipeToLog)
+
+  const spawnedAt = Date.now()
+  const httpd: SupervisedHttpd = {
+    process: childProcess,
+    endpoint: `http://${listenAddress}`,
+    isReady: false,
+    exited: new Promise((resolve) => {
+      childProcess.on('error', (error) => {
+        log(`Failed spawning "${binary}": ${error.message}`, 'error')
+        resolve()
+      })
+      childProcess.on('exit', () => {
+        resolve()
+      })
+    }),
+  }
+  supervisedHttpd = httpd
+
+  httpd.exited.then(() => {
+    if (supervisedHttpd !== httpd) {
+      // got stopped on purpose
+      return
+    }
+
+    supervisedHttpd = undefined
+    httpd.isReady && onDidChangeHttpdEndpoint()
+    consecutiveCrashCount =
+      Date.now() - spawnedAt > stableUptimeMs ? 1 : consecutiveCrashCount + 1
+    if (consecutiveCrashCount >= maxConsecutiveCrashes) {
+      isSupervising = false
+      notifyUserAboutRepeatedCrashes()
+
+      return
+    }
+
+    const backoffMs = 1_000 * 2 ** (consecutiveCrashCount - 1)
+    log(
+      `"radicle-httpd" exited unexpectedly. Restarting it in ${backoffMs / 1_000}s...`,
+      'warn',
+    )
+    restartTimeout = setTimeout(() => {
+      spawnHttpd()
+    }, backoffMs)
+  })
+
+  const isReady = await waitUntilReady(httpd)
+  if (isReady && supervisedHttpd === httpd) {
+    httpd.isReady = true
+    log(`Spawned "radicle-httpd" listening at "${httpd.endpoint}"`, 'info')
+    onDidChangeHttpdEndpoint()
+  } else if (supervisedHttpd === httpd && httpd.process.exitCode === null) {
+    log(`"radicle-httpd" didn't start serving requests in time. Killing it...`, 'warn')
+    // the exit handler will take care of restarting it
+    httpd.process.kill()
+  }
+
+  return isReady
+}
+
+/**
+ * Polls the root endpoint of the spawned `radicle-httpd` until it responds, the process
+ * exits, or a few seconds pass.
+ */
+async function waitUntilReady(httpd: SupervisedHttpd): Promise<boolean> {
+  const deadline = Date.now() + 15_000
+  let hasExited = false
+  httpd.exited.then(() => {
+    hasExited = true
+  })
+
+  while (Date.now() < deadline) {
+    if (hasExited) {
+      return false
+    }
+
+    try {
+      await ofetch(`${httpd.endpoint}/api/v1`, { retry: 0, timeout: 1_000 })
+
+      return true
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 250))
+    }
+  }
+
+  return false
+}
+
+/**
+ * Points the connection with httpd at whichever endpoint is now in effect and refetches
+ * any data previously fetched from it.
+ */
+function onDidChangeHttpdEndpoint(): void {
+  resetHttpdConnection()
+  getNodeConnection().validate({ minimizeUserNotifications: true })
+  usePatchStore().resetAllPatches()
+  useIssueStore().resetAllIssues()
+}
+
+function notifyUserAboutRepeatedCrashes(): void {
+  const button = 'Show Output'
+  window
+    .showErrorMessage(
+      `"radicle-httpd" spawned by the extension crashed ${maxConsecutiveCrashes} times in a \
+      row and won't be restarted. Falling back to the Radicle HTTP API configured in the \
+      extension's settings.`,
+      button,
+    )
+    .then((userSelection) => {
+      userSelection === button && showLog()
+    })
+}
+
+function pipeToLog(line: string): void {
+  line.trim() && appendToLog(`[radicle-httpd] ${line}`)
+}
+
+/**
+ * Resolves a reference to the `radicle-httpd` binary, preferring the one configured by the
+ * user, then the one installed next to the Radicle CLI by the installation script, and
+ * otherwise relying on it being in `PATH`.
+ */
+function getHttpdBinaryRef(): string {
+  const configPathToHttpdBinary = getConfig('radicle.advanced.pathToHttpdBinary')
+  if (configPathToHttpdBinary) {
+    return expandHomeDir(configPathToHttpdBinary)
+  }
+
+  const defaultHttpdBinaryLocation = Path.join(
+    Path.dirname(expandHomeDir(defaultRadBinaryLocation)),
+    'radicle-httpd',
+  )
+
+  return existsSync(defaultHttpdBinaryLocation) ? defaultHttpdBinaryLocation : 'radicle-httpd'
+}
+
+async function findFreePort(): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const server = createServer()
+    server.unref()
+    server.on('error', reject)
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      server.close(() => {
+        resolve(port)
+      })
+    })
+  })
+}
@@ -1,9 +1,17 @@
 export * from './command'
+export * from './comments'
 export * from './config'
 export * from './configWatcher'
 export * from './fetchFromHttpd'
 export * from './fileWatcher'
+export * from './httpdSupervisor'
 export * from './logExtensionActivated'
+export * from './nodeDiffContentProvider'
+export * from './nodeStatusBar'
 export * from './radCli'
+export * from './radCliClient'
+export * from './radFileSystemProvider'
+export * from './sourceControl'
+export * from './versionCompatibility'
 export * from './views'
 export * from './webview'
@@ -0,0 +1,180 @@
+import { type TextDocumentContentProvider, Uri, workspace } from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { getExtensionContext } from '../stores'
+import {
+  type Changeset,
+  type DiffResponse,
+  isCopiedOrMovedFilechangeWithDiff,
+  isMovedFilechangeWithoutDiff,
+} from '../types'
+import type { Result } from '../types/node'
+import { log } from '../utils'
+
+/**
+ * The URI scheme of read-only documents holding a version of a patched file as supplied by
+ * the Radicle node, used in place of the local git repo's version when the latter is missing
+ * the commits of a patch's revision (e.g. because they haven't been fetched yet).
+ */
+export const nodeDiffUriScheme = 'radicle-node-diff'
+
+/**
+ * A file of a `Changeset`, flattened to the properties that are of interest regardless of
+ * how it got changed.
+ */
+export interface NodeDiffFilechange {
+  state: Changeset['files'][number]['state']
+  /**
+   * The path of the file before the change, relative to the repo root.
+   */
+  oldPath: string
+  /**
+   * The path of the file after the change, relative to the repo root.
+   */
+  newPath: string
+  oldBlobOid?: string
+  newBlobOid?: string
+}
+
+interface NodeDiffUriQuery {
+  base: string
+  oid: string
+  side: 'old' | 'new'
+}
+
+const promisedDiffs = new Map<string, Promise<Result<DiffResponse>>>()
+
+const nodeDiffContentProvider: TextDocumentContentProvider = {
+  provideTextDocumentContent: async (uri) => {
+    const { base, oid, side } = JSON.parse(uri.query) as NodeDiffUriQuery
+    const path = uri.path.replace(/^\//, '')
+
+    const { data: diff, error } = await fetchNodeDiff({ old: base, new: oid })
+    if (error) {
+      log(`Failed fetching the diff of "${path}": ${error.message}`, 'error')
+
+      return ''
+    }
+
+    const filechange = getNodeDiffFilechanges(diff.diff).find(
+      (file) => (side === 'old' ? file.oldPath : file.newPath) === path,
+    )
+    const blobOid = side === 'old' ? filechange?.oldBlobOid : filechange?.newBlobOid
+    const blob = blobOid ? diff.files[blobOid] : undefined
+
+    return blob && !blob.binary ? blob.content : ''
+  },
+}
+
+/**
+ * Registers the provider of the contents of documents with the `radicle-node-diff` scheme.
+ */
+export function registerNodeDiffContentProvider(): void {
+  getExtensionContext().subscriptions.push(
+    workspace.registerTextDocumentContentProvider(nodeDiffUriScheme, nodeDiffContentProvider),
+  )
+}
+
+/**
+ * Fetches the diff between two commits of the project currently open in the workspace from
+ * the Radicle node. Successful responses are cached, since the diff between two given commits
+ * never changes.
+ */
+export async function fetchNodeDiff(range: {
+  old: string
+  new: string
+}): Promise<Result<DiffResponse>> {
+  const cacheKey = `${range.old}..${range.new}`
+  let promisedDiff = promisedDiffs.get(cacheKey)
+  if (!promisedDiff) {
+    promisedDiff = (async () => {
+      const { data: rid } = await getNodeConnection().getCurrentProjectId()
+      if (!rid) {
+        return { error: new Error('Failed resolving RID') }
+      }
+
+      return await getNodeConnection().fetchDiff(rid, range.old, range.new)
+    })()
+    promisedDiffs.set(cacheKey, promisedDiff)
+  }
+
+  const diff = await promisedDiff
+  diff.error && promisedDiffs.delete(cacheKey)
+
+  return diff
+}
+
+/**
+ * Resolves the uri of the document holding the version of a patched file on the given side
+ * of the diff between two commits, as supplied by the Radicle node.
+ */
+export function toNodeDiffUri(
+  path: string,
+  range: { old: string; new: string },
+  side: NodeDiffUriQuery['side'],
+): Uri {
+  return Uri.from({
+    scheme: nodeDiffUriScheme,
+    path: `/${path}`,
+    query: JSON.stringify({
+      base: range.old,
+      oid: range.new,
+      side,
+    } satisfies NodeDiffUriQuery),
+  })
+}
+
+/**
+ * Flattens the files of a `Changeset` to the properties that are of interest regardless of
+ * how each got changed.
+ */
+export function getNodeDiffFilechanges(changeset: Changeset): NodeDiffFilechange[] {
+  return changeset.files.map((file): NodeDiffFilechange => {
+    switch (file.state) {
+      case 'added':
+        return {
+          state: file.state,
+          oldPath: file.path,
+          newPath: file.path,
+          newBlobOid: file.new.oid,
+        }
+      case 'deleted':
+        return {
+          state: file.state,
+          oldPath: file.path,
+          newPath: file.path,
+          oldBlobOid: file.old.oid,
+        }
+      case 'modified':
+        return {
+          state: file.state,
+          oldPath: file.path,
+          newPath: file.path,
+          oldBlobOid: file.old.oid,
+          newBlobOid: file.new.oid,
+        }
+
+      default: {
+        const { oldPath, newPath } = file
+        if (isCopiedOrMovedFilechangeWithDiff(file)) {
+          return {
+            state: file.state,
+            oldPath,
+            newPath,
+            oldBlobOid: file.old.oid,
+            newBlobOid: file.new.oid,
+          }
+        } else if (isMovedFilechangeWithoutDiff(file)) {
+          return {
+            state: file.state,
+            oldPath,
+            newPath,
+            oldBlobOid: file.current.oid,
+            newBlobOid: file.current.oid,
+          }
+        }
+
+        return { state: file.state, oldPath, newPath }
+      }
+    }
+  })
+}
@@ -0,0 +1,89 @@
+import {
+  MarkdownString,
+  StatusBarAlignment,
+  type StatusBarItem,
+  ThemeColor,
+  window,
+} from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { getExtensionContext } from '../stores'
+import type { NodeStatus } from '../types/node'
+import { setWhenClauseContext } from '../utils'
+
+let statusBarItem: StatusBarItem | undefined
+
+/**
+ * Re-resolves whether the Radicle node is running, updating the status bar item and the
+ * `radicle.isNodeRunning` when clause context key accordingly.
+ *
+ * @returns `true` if the node is running, `false` if it's stopped, or `undefined` if its
+ * status couldn't be resolved (e.g. because httpd isn't reachable).
+ */
+export async function refreshNodeState(): Promise<boolean | undefined> {
+  const { data: status } = await getNodeConnection().getNodeStatus()
+  setWhenClauseContext('radicle.isNodeRunning', Boolean(status?.isRunning))
+  statusBarItem && renderStatusBarItem(statusBarItem, status)
+
+  return status?.isRunning
+}
+
+/**
+ * Registers the status bar item showing whether the Radicle node is running, which can
+ * also be clicked to start the node if it isn't.
+ */
+export function registerNodeStatusBarItem(): void {
+  statusBarItem = window.createStatusBarItem('radicle.nodeStatus', StatusBarAlignment.Left)
+  statusBarItem.name = 'Radicle Node'
+
+  const interval = setInterval(() => {
+    refreshNodeState()
+  }, 60_000)
+  getExtensionContext().subscriptions.push(statusBarItem, {
+    dispose: () => {
+      clearInterval(interval)
+    },
+  })
+
+  refreshNodeState()
+}
+
+function renderStatusBarItem(item: StatusBarItem, status: NodeStatus | undefined): void {
+  const tooltip = new MarkdownString('', true)
+  tooltip.isTrusted = { enabledCommands: ['radicle.stopNode', 'radicle.restartNode'] }
+
+  if (!status) {
+    item.text = '$(radio-tower) Unknown'
+    item.backgroundColor = undefined
+    item.command = 'radicle.startNode'
+    tooltip.appendMarkdown(
+      'Failed resolving the status of the Radicle node. Click to start it.',
+    )
+  } else if (status.isRunning) {
+    const connectedPeerCount = status.peers?.filter(
+      (peer) => peer.state === 'connected',
+    ).length
+
+    item.text = `$(radio-tower) ${
+      connectedPeerCount === undefined
+        ? 'Running'
+        : `${connectedPeerCount} peer${connectedPeerCount === 1 ? '' : 's'}`
+    }`
+    item.backgroundColor = undefined
+    item.command = 'node-status-view.focus'
+    tooltip.appendMarkdown(
+      `Radicle node \`${
+        status.alias ?? status.nid
+      }\` is running. Click to show its status.\n\n` +
+        '[$(debug-stop) Stop](command:radicle.stopNode) · ' +
+        '[$(debug-restart) Restart](command:radicle.restartNode)',
+    )
+  } else {
+    item.text = '$(circle-slash) Stopped'
+    item.backgroundColor = new ThemeColor('statusBarItem.warningBackground')
+    item.command = 'radicle.startNode'
+    tooltip.appendMarkdown('The Radicle node is stopped. Click to start it.')
+  }
+
+  item.tooltip = tooltip
+  item.show()
+}
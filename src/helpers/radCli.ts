@@ -1,10 +1,16 @@
-import { assertUnreachable, exec, memoizeWithDebouncedCacheClear } from '../utils'
+import { Buffer } from 'node:buffer'
+import { readFileSync } from 'node:fs'
+import Path from 'node:path'
+import type { RID } from '../types/node'
+import { type ArgvCommand, exec, memoizeWithDebouncedCacheClear } from '../utils'
 import {
   defaultRadBinaryLocation,
+  expandHomeDir,
   getConfig,
   getResolvedPathToNodeHome,
   getValidatedPathToDefaultRadBinaryLocation,
   getValidatedPathToRadBinaryWhenAliased,
+  radCli,
 } from '.'
 
 /**
@@ -13,19 +19,12 @@ import {
  * @see {@link getRadCliRef()} for more info
  */
 export function getRadCliRefNow(): string {
-  const configPathToNodeHome = getConfig('radicle.advanced.pathToNodeHome')
-  const envPathToNodeHome = configPathToNodeHome && `RAD_HOME=${configPathToNodeHome}`
-  const envVars = [envPathToNodeHome]
-  const parsedEnvVars = envVars.filter(Boolean).length ? `${envVars.join(' ')} ` : ''
-
   const radCliRef =
     getConfig('radicle.advanced.pathToRadBinary') ||
     (Boolean(getValidatedPathToRadBinaryWhenAliased()) && 'rad') ||
     defaultRadBinaryLocation
 
-  const radCliRefWithEnvVars = `${parsedEnvVars}${radCliRef}`
-
-  return radCliRefWithEnvVars
+  return expandHomeDir(radCliRef)
 }
 const {
   memoizedFunc: memoizedGetRadCliRef,
@@ -48,6 +47,26 @@ export function getRadCliRef() {
   return cliRef
 }
 
+/**
+ * Constructs an invocation of the resolved Radicle CLI binary with the given arguments, each
+ * passed to it as-is without going through a shell. The node home configured by the user,
+ * if any, is passed via the `RAD_HOME` env var.
+ *
+ * @example
+ * ```ts
+ * exec(rad('auth', '--alias', alias), { env: { RAD_PASSPHRASE: passphrase } })
+ * ```
+ */
+export function rad(...args: string[]): ArgvCommand {
+  const configPathToNodeHome = getConfig('radicle.advanced.pathToNodeHome')
+
+  return {
+    file: getRadCliRef(),
+    args,
+    env: configPathToNodeHome ? { RAD_HOME: expandHomeDir(configPathToNodeHome) } : undefined,
+  }
+}
+
 /**
  * Resolves the absolute path to the _resolved_ Radicle CLI binary.
  *
@@ -72,11 +91,7 @@ export function getRadCliPath(): string | undefined {
  * @returns The version of the Radicle CLI, if successfully resolved.
  */
 export function getRadCliVersion(): string | undefined {
-  const version = exec(`${getRadCliRef()} --version`)
-  const semverRegex = /\d+\.\d+\S*/g // https://regexr.com/7bevi
-  const semver = version?.match(semverRegex)?.[0]
-
-  return semver ?? version
+  return radCli.version().data?.version
 }
 
 /**
@@ -85,7 +100,7 @@ export function getRadCliVersion(): string | undefined {
  * @returns `true` if found, otherwise `false`.
  */
 export function isRadCliInstalled(): boolean {
-  const isInstalled = Boolean(exec(getRadCliRef()))
+  const isInstalled = Boolean(exec(rad()))
 
   return isInstalled
 }
@@ -108,8 +123,11 @@ export function isRadInitialized(): boolean {
  * An unencrypted Radicle identity can be the result of a user deciding to use a blank
  * passphrase when creating it.
  *
- * @returns `true` if encrypted, `false` if unencrypted, or `undefined` if execution
- * is unsuccessful.
+ * The key is stored in the OpenSSH private key format, whose header names the cipher the
+ * key is encrypted with, or `none` if it isn't.
+ *
+ * @returns `true` if encrypted, `false` if unencrypted, or `undefined` if the key couldn't
+ * be read or parsed.
  */
 export function isRadicleIdentityKeyEncrypted(): boolean | undefined {
   const pathToNodeHome = getResolvedPathToNodeHome()
@@ -117,16 +135,28 @@ export function isRadicleIdentityKeyEncrypted(): boolean | undefined {
     return undefined
   }
 
-  const keyInfo = exec(`openssl base64 -d -in ${pathToNodeHome}/keys/radicle | strings`)
-  if (!keyInfo) {
+  let key: Buffer
+  try {
+    const pem = readFileSync(Path.join(pathToNodeHome, 'keys', 'radicle'), 'utf-8')
+    key = Buffer.from(pem.replace(/-----[^-]+-----|\s/g, ''), 'base64')
+  } catch {
     return undefined
   }
 
-  const isEncrypted = keyInfo.includes('aes256') // the CLI's chosen cypher as of coding this
-  const isUnencrypted = keyInfo.includes('none') // if the above fails, this should work enough
-  const verdict = isEncrypted || !isUnencrypted
-
-  return verdict
+  // https://github.com/openssh/openssh-portable/blob/master/PROTOCOL.key
+  const magic = 'openssh-key-v1\0'
+  if (key.length < magic.length + 4 || key.toString('latin1', 0, magic.length) !== magic) {
+    return undefined
+  }
+  const cipherNameLength = key.readUInt32BE(magic.length)
+  const cipherNameStart = magic.length + 4
+  const cipherName = key.toString(
+    'latin1',
+    cipherNameStart,
+    cipherNameStart + cipherNameLength,
+  )
+
+  return cipherName !== 'none'
 }
 
 /**
@@ -175,28 +205,18 @@ export function getRadicleIdentity(
 
 // TODO: maninak call http://127.0.0.1:8080/api/v1/node to collect that info instead
 export function getRadicleIdentity(format: 'DID' | 'NID') {
-  let flag: string
-  switch (format) {
-    case 'DID':
-      flag = '--did'
-      break
-    case 'NID':
-      flag = '--nid'
-      break
-    default:
-      assertUnreachable(format)
-  }
-
-  // TODO: maninak reuse shell for second exec
-  const id = exec(`${getRadCliRef()} self ${flag}`)
-  const alias = exec(`${getRadCliRef()} self --alias`)
-
-  if (!id || !alias) {
-    // assumes each Radicle identity always comes with an associated alias
+  const { data: self } = radCli.self()
+  if (!self) {
     return undefined
   }
 
-  return { [format]: id, alias, toString: () => `"${alias}" "${id}"` } as const
+  const id = format === 'DID' ? self.did : self.nid
+
+  return {
+    [format]: id,
+    alias: self.alias,
+    toString: () => `"${self.alias}" "${id}"`,
+  } as const
 }
 
 /**
@@ -206,19 +226,25 @@ export function getRadicleIdentity(format: 'DID' | 'NID') {
  * @returns The RID if resolved, otherwise `undefined`.
  */
 export function getCurrentProjectId(): `rad:${string}` | undefined {
-  const maybeRid = exec(`${getRadCliRef()} inspect --rid`, { cwd: '$workspaceDir' })
-
-  function isStrARid(str: string | undefined): str is `rad:${string}` {
-    return Boolean(str?.startsWith('rad:'))
-  }
-
-  return isStrARid(maybeRid) ? maybeRid : undefined
+  return radCli.inspectRid('$workspaceDir').data
 }
 export const {
   memoizedFunc: memoizedGetCurrentProjectId,
   debouncedClearMemoizedFuncCache: debouncedClearMemoizedGetCurrentProjectIdCache,
 } = memoizeWithDebouncedCacheClear(getCurrentProjectId, 10_000)
 
+/**
+ * Resolves the path to the bare git repo in which the Radicle node stores the given project,
+ * holding the refs of each peer under its own `refs/namespaces/<NID>/` prefix.
+ *
+ * @returns The path if the Radicle home directory got resolved, otherwise `undefined`.
+ */
+export function getProjectStoragePath(rid: RID): string | undefined {
+  const radHome = radCli.home().data
+
+  return radHome && Path.join(radHome, 'storage', rid.replace(/^rad:/, ''))
+}
+
 /**
  * Resolves the cryptographic public key of the Radicle identity found in the resolved
  * home directory of a node.
@@ -229,19 +255,5 @@ export const {
  * @returns The key if resolved, otherwise `undefined`.
  */
 export function getNodeSshKey(format: 'fingerprint' | 'full'): string | undefined {
-  let flag: string
-  switch (format) {
-    case 'fingerprint':
-      flag = '--ssh-fingerprint'
-      break
-    case 'full':
-      flag = '--ssh-key'
-      break
-    default:
-      assertUnreachable(format)
-  }
-
-  const nodeSshKey = exec(`${getRadCliRef()} self ${flag}`)
-
-  return nodeSshKey
+  return radCli.sshKey(format).data
 }
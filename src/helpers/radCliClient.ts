@@ -0,0 +1,273 @@
+import Path from 'node:path'
+import type { XOR } from 'ts-xor'
+import type { DId } from '../types'
+import type { RID } from '../types/node'
+import { type ExecError, exec, log } from '../utils'
+import { rad } from '.'
+
+/**
+ * The kinds of failure a `RadCli` call may report.
+ *
+ * - `not-installed`: the Radicle CLI binary couldn't be found
+ * - `failed`: the subcommand exited unsuccessfully or ran past its timeout
+ * - `invalid-output`: the subcommand succeeded but its output didn't match the expected
+ * schema, most likely because of a breaking change in the CLI
+ */
+export type RadCliErrorKind = 'not-installed' | 'failed' | 'invalid-output'
+
+/**
+ * A failure of a Radicle CLI subcommand invoked via `RadCli`.
+ */
+export class RadCliError extends Error {
+  public readonly kind: RadCliErrorKind
+  /**
+   * The arguments the Radicle CLI got invoked with.
+   */
+  public readonly args: string[]
+  /**
+   * The exit code of the subcommand, if it got to run and exited on its own.
+   */
+  public readonly exitCode?: number
+
+  public constructor(
+    kind: RadCliErrorKind,
+    args: string[],
+    message: string,
+    exitCode?: number,
+  ) {
+    super(`\`rad ${args.join(' ')}\` ${message}`)
+    this.name = 'RadCliError'
+    this.kind = kind
+    this.args = args
+    this.exitCode = exitCode
+  }
+}
+
+/**
+ * Like `Result`, but with the error narrowed down to a `RadCliError`.
+ */
+export type RadCliResult<Data> = XOR<{ data: Data }, { error: RadCliError }>
+
+export interface RadCliVersion {
+  /**
+   * The version of the CLI, in semver format if the CLI reports one.
+   */
+  version: string
+  /**
+   * The commit the CLI binary got built from, if reported.
+   */
+  commit?: string
+}
+
+export interface RadSelf {
+  did: DId
+  nid: string
+  alias: string
+}
+
+/**
+ * A schema validating the output of a subcommand, acting as a type guard for it.
+ */
+type Schema<T> = (value: unknown) => value is T
+
+const didRegex = /^did:key:z[1-9A-HJ-NP-Za-km-z]+$/
+const ridRegex = /^rad:z[1-9A-HJ-NP-Za-km-z]+$/
+const semverRegex = /\d+\.\d+\S*/ // https://regexr.com/7bevi
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isDid: Schema<DId> = (value): value is DId =>
+  typeof value === 'string' && didRegex.test(value)
+
+const isRid: Schema<RID> = (value): value is RID =>
+  typeof value === 'string' && ridRegex.test(value)
+
+const isAbsolutePath: Schema<string> = (value): value is string =>
+  typeof value === 'string' && Path.isAbsolute(value)
+
+const isVersionJson: Schema<{ version: string; commit?: string }> = (
+  value,
+): value is { version: string; commit?: string } =>
+  isRecord(value) &&
+  typeof value['version'] === 'string' &&
+  semverRegex.test(value['version']) &&
+  (value['commit'] === undefined || typeof value['commit'] === 'string')
+
+const isVersionText: Schema<string> = (value): value is string =>
+  typeof value === 'string' && semverRegex.test(value)
+
+const isConfigJson: Schema<{ node: { alias: string } }> = (
+  value,
+): value is { node: { alias: string } } =>
+  isRecord(value) && isRecord(value['node']) && typeof value['node']['alias'] === 'string'
+
+const sshKeySchemas = {
+  fingerprint: (value: unknown): value is string =>
+    typeof value === 'string' && /^SHA256:\S+$/.test(value),
+  full: (value: unknown): value is string =>
+    typeof value === 'string' && /^ssh-ed25519 \S+$/.test(value),
+} satisfies Record<string, Schema<string>>
+
+/**
+ * Typed client of the Radicle CLI. Each method invokes a subcommand, using its JSON output
+ * mode where one is available, and validates the output against a schema before returning
+ * it, so that a change in the CLI's output surfaces as a `RadCliError` of kind
+ * `invalid-output` instead of as garbage further down the line.
+ *
+ * @example
+ * ```ts
+ * const { data: self, error } = radCli.self()
+ * if (error) {
+ *   error.kind === 'not-installed' ? promptInstall() : log(error.message, 'error')
+ * }
+ * ```
+ */
+export class RadCli {
+  /**
+   * Resolves the version of the CLI, preferring `rad version --json` and falling back to
+   * parsing `rad --version` for CLIs predating it.
+   */
+  public version(): RadCliResult<RadCliVersion> {
+    const { data: versionJson, error } = this.execJson(['version', '--json'], isVersionJson)
+    if (versionJson) {
+      return {
+        data: {
+          version: versionJson.version.match(semverRegex)?.[0] ?? versionJson.version,
+          commit: versionJson.commit,
+        },
+      }
+    } else if (error.kind === 'not-installed') {
+      return { error }
+    }
+
+    const { data: versionText, error: versionTextError } = this.execValidated(
+      ['--version'],
+      isVersionText,
+    )
+    if (versionTextError) {
+      return { error: versionTextError }
+    }
+
+    return { data: { version: versionText.match(semverRegex)?.[0] ?? versionText } }
+  }
+
+  /**
+   * Resolves the Radicle identity of the local node along with its alias.
+   */
+  public self(): RadCliResult<RadSelf> {
+    const { data: did, error: didError } = this.execValidated(['self', '--did'], isDid)
+    if (didError) {
+      return { error: didError }
+    }
+
+    const { data: config, error: configError } = this.execJson(['config'], isConfigJson)
+    if (configError) {
+      return { error: configError }
+    }
+
+    return { data: { did, nid: did.replace(/^did:key:/, ''), alias: config.node.alias } }
+  }
+
+  /**
+   * Resolves the public key of the Radicle identity of the local node, in the given format.
+   *
+   * @param format Either `fingerprint` (e.g.: SHA256:+ggv51RTNH8KlryICcYCnb67MXDyMjOpxQrIwP68xYU)
+   * or `full` (e.g.: ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIOlfJT4YlvXMI9h98D4SSswNV5S0voNrQaUZMCq0s0zK).
+   */
+  public sshKey(format: keyof typeof sshKeySchemas): RadCliResult<string> {
+    return this.execValidated(
+      ['self', format === 'fingerprint' ? '--ssh-fingerprint' : '--ssh-key'],
+      sshKeySchemas[format],
+    )
+  }
+
+  /**
+   * Resolves the RID of the Radicle project in the given directory.
+   */
+  public inspectRid(cwd: NonNullable<Parameters<typeof exec>['1']>['cwd']): RadCliResult<RID> {
+    return this.execValidated(['inspect', '--rid'], isRid, { cwd })
+  }
+
+  /**
+   * Resolves the absolute path to the Radicle home directory used by the CLI.
+   */
+  public home(): RadCliResult<string> {
+    return this.execValidated(['path'], isAbsolutePath)
+  }
+
+  private execJson<T>(args: string[], schema: Schema<T>): RadCliResult<T> {
+    const { data: output, error } = this.execRaw(args)
+    if (error) {
+      return { error }
+    }
+
+    let json: unknown
+    try {
+      json = JSON.parse(output)
+    } catch {
+      return { error: this.toInvalidOutputError(args, output) }
+    }
+
+    return schema(json) ? { data: json } : { error: this.toInvalidOutputError(args, output) }
+  }
+
+  private execValidated<T extends string>(
+    args: string[],
+    schema: Schema<T>,
+    options?: Parameters<typeof exec>['1'],
+  ): RadCliResult<T> {
+    const { data: output, error } = this.execRaw(args, options)
+    if (error) {
+      return { error }
+    }
+
+    return schema(output)
+      ? { data: output }
+      : { error: this.toInvalidOutputError(args, output) }
+  }
+
+  private execRaw(
+    args: string[],
+    options?: Parameters<typeof exec>['1'],
+  ): RadCliResult<string> {
+    let execError: ExecError | undefined
+    const output = exec(rad(...args), {
+      ...options,
+      onError: (error) => {
+        execError = error
+      },
+    })
+
+    if (output !== undefined) {
+      return { data: output }
+    } else if (execError?.errorCode === 'ENOENT') {
+      return { error: new RadCliError('not-installed', args, 'failed: Radicle CLI not found') }
+    }
+
+    return {
+      error: new RadCliError(
+        'failed',
+        args,
+        `failed${execError?.message ? `: ${execError.message}` : ''}`,
+        execError?.exitCode,
+      ),
+    }
+  }
+
+  private toInvalidOutputError(args: string[], output: string): RadCliError {
+    const error = new RadCliError(
+      'invalid-output',
+      args,
+      `returned unexpected output: "${
+        output.length > 200 ? `${output.slice(0, 200)}…` : output
+      }"`,
+    )
+    log(`${error.message}. Is this Radicle CLI version supported?`, 'warn')
+
+    return error
+  }
+}
+
+export const radCli = new RadCli()
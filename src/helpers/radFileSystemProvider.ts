@@ -0,0 +1,233 @@
+import { Buffer } from 'node:buffer'
+import {
+  Disposable,
+  EventEmitter,
+  type FileChangeEvent,
+  FilePermission,
+  type FileStat,
+  FileSystemError,
+  type FileSystemProvider,
+  FileType,
+  Uri,
+  workspace,
+} from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { getExtensionContext } from '../stores'
+import type { Blob, Tree, TreeEntry } from '../types'
+import type { RID, Result } from '../types/node'
+import { execAsync, git, log, memoizeWithDebouncedCacheClear } from '../utils'
+import { getProjectStoragePath } from './radCli'
+
+/**
+ * The URI scheme of the read-only file system serving the files of any Radicle project at
+ * any commit, as supplied by the Radicle node.
+ *
+ * @example
+ * ```ts
+ * // the file `src/main.rs` of project `rad:z3gq…Zs5` as of commit `8dc745b…`
+ * Uri.parse('rad://z3gq…Zs5/8dc745b…/src/main.rs')
+ * ```
+ */
+export const radUriScheme = 'rad'
+
+const promisedTrees = new Map<string, Promise<Result<Tree>>>()
+const promisedBlobs = new Map<string, Promise<Result<Blob>>>()
+/**
+ * The size in bytes of each file stat'ed so far, keyed by `${rid}/${oid}`.
+ */
+const promisedBlobSizes = new Map<string, Promise<number | undefined>>()
+
+const {
+  memoizedFunc: memoizedGetProjectStoragePath,
+  debouncedClearMemoizedFuncCache: debouncedClearMemoizedGetProjectStoragePathCache,
+} = memoizeWithDebouncedCacheClear(getProjectStoragePath, 10_000)
+
+const radFileSystemProvider: FileSystemProvider = {
+  // the contents of a project at a given commit never change
+  onDidChangeFile: new EventEmitter<FileChangeEvent[]>().event,
+  watch: () => new Disposable(() => {}),
+  stat: async (uri) => {
+    const { rid, commit, path } = parseRadUri(uri)
+    if (!path) {
+      return toFileStat('tree')
+    }
+
+    const parentPath = path.split('/').slice(0, -1).join('/')
+    const name = path.split('/').at(-1)
+    const { data: parentTree, error } = await fetchTreeCached(rid, commit, parentPath)
+    if (error) {
+      log(`Failed fetching "${uri.toString()}": ${error.message}`, 'error')
+      throw FileSystemError.Unavailable(uri)
+    }
+
+    const entry = parentTree.entries.find((parentEntry) => parentEntry.name === name)
+    if (!entry) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+
+    return toFileStat(
+      entry.kind,
+      entry.kind === 'blob'
+        ? await resolveBlobSizeCached(rid, commit, path, entry.oid)
+        : undefined,
+    )
+  },
+  readDirectory: async (uri) => {
+    const { rid, commit, path } = parseRadUri(uri)
+    const { data: tree, error } = await fetchTreeCached(rid, commit, path)
+    if (error) {
+      log(`Failed fetching "${uri.toString()}": ${error.message}`, 'error')
+      throw FileSystemError.Unavailable(uri)
+    }
+
+    return tree.entries.map((entry) => [entry.name, toFileStat(entry.kind).type])
+  },
+  readFile: async (uri) => {
+    const { rid, commit, path } = parseRadUri(uri)
+    const { data: blob, error } = await fetchBlobCached(rid, commit, path)
+    if (error) {
+      log(`Failed fetching "${uri.toString()}": ${error.message}`, 'error')
+      throw FileSystemError.Unavailable(uri)
+    }
+
+    return toBytes(blob)
+  },
+  createDirectory: (uri) => {
+    throw FileSystemError.NoPermissions(uri)
+  },
+  writeFile: (uri) => {
+    throw FileSystemError.NoPermissions(uri)
+  },
+  delete: (uri) => {
+    throw FileSystemError.NoPermissions(uri)
+  },
+  rename: (oldUri) => {
+    throw FileSystemError.NoPermissions(oldUri)
+  },
+}
+
+/**
+ * Registers the read-only file system serving Radicle projects under the `rad:` URI scheme.
+ */
+export function registerRadFileSystemProvider(): void {
+  getExtensionContext().subscriptions.push(
+    workspace.registerFileSystemProvider(radUriScheme, radFileSystemProvider, {
+      isCaseSensitive: true,
+      isReadonly: true,
+    }),
+  )
+}
+
+/**
+ * Resolves the `rad:` URI of a file or directory of a Radicle project as of a given commit.
+ *
+ * @param path The path of the file or directory relative to the repo root. Defaults to the
+ * repo root itself.
+ */
+export function toRadUri(rid: RID, commit: string, path = ''): Uri {
+  return Uri.from({
+    scheme: radUriScheme,
+    authority: rid.replace(/^rad:/, ''),
+    path: `/${commit}${path ? `/${path}` : ''}`,
+  })
+}
+
+function parseRadUri(uri: Uri): { rid: RID; commit: string; path: string } {
+  const [commit = '', ...pathSegments] = uri.path.split('/').filter(Boolean)
+
+  return { rid: `rad:${uri.authority}`, commit, path: pathSegments.join('/') }
+}
+
+async function fetchTreeCached(rid: RID, commit: string, path: string) {
+  const cacheKey = `${rid}/${commit}/${path}`
+  let promisedTree = promisedTrees.get(cacheKey)
+  if (!promisedTree) {
+    promisedTree = getNodeConnection().fetchTree(rid, commit, path)
+    promisedTrees.set(cacheKey, promisedTree)
+  }
+
+  const tree = await promisedTree
+  tree.error && promisedTrees.delete(cacheKey)
+
+  return tree
+}
+
+async function fetchBlobCached(rid: RID, commit: string, path: string) {
+  const cacheKey = `${rid}/${commit}/${path}`
+  let promisedBlob = promisedBlobs.get(cacheKey)
+  if (!promisedBlob) {
+    promisedBlob = getNodeConnection().fetchBlob(rid, commit, path)
+    promisedBlobs.set(cacheKey, promisedBlob)
+  }
+
+  const blob = await promisedBlob
+  blob.error && promisedBlobs.delete(cacheKey)
+
+  return blob
+}
+
+/**
+ * Resolves the size of a file, reading it off its git object in the node's storage so that
+ * stat'ing a file doesn't require fetching its content. Only if the storage isn't accessible
+ * (e.g. when connecting to a remote httpd) does the content get fetched, sharing the
+ * request with `readFile()`. Failing either way isn't worth failing a `stat()` over, so the
+ * size is then left unresolved.
+ */
+async function resolveBlobSizeCached(
+  rid: RID,
+  commit: string,
+  path: string,
+  oid: TreeEntry['oid'],
+): Promise<number | undefined> {
+  const cacheKey = `${rid}/${oid}`
+  let promisedSize = promisedBlobSizes.get(cacheKey)
+  if (!promisedSize) {
+    promisedSize = resolveBlobSize(rid, commit, path, oid)
+    promisedBlobSizes.set(cacheKey, promisedSize)
+  }
+
+  const size = await promisedSize
+  size === undefined && promisedBlobSizes.delete(cacheKey)
+
+  return size
+}
+
+async function resolveBlobSize(
+  rid: RID,
+  commit: string,
+  path: string,
+  oid: TreeEntry['oid'],
+): Promise<number | undefined> {
+  debouncedClearMemoizedGetProjectStoragePathCache()
+  const storagePath = memoizedGetProjectStoragePath(rid)
+  const sizeOutput =
+    storagePath &&
+    (await execAsync(git('cat-file', '-s', '--end-of-options', oid), {
+      cwd: storagePath,
+    }))
+  if (sizeOutput && /^\d+$/.test(sizeOutput)) {
+    return Number(sizeOutput)
+  }
+
+  const { data: blob, error } = await fetchBlobCached(rid, commit, path)
+  if (error) {
+    log(`Failed resolving the size of "${path}": ${error.message}`, 'warn')
+
+    return undefined
+  }
+
+  return toBytes(blob).byteLength
+}
+
+function toBytes(blob: Blob): Uint8Array {
+  return blob.binary
+    ? Buffer.from(blob.content, 'base64')
+    : new TextEncoder().encode(blob.content)
+}
+
+function toFileStat(kind: TreeEntry['kind'], size = 0): FileStat {
+  const type =
+    kind === 'tree' ? FileType.Directory : kind === 'blob' ? FileType.File : FileType.Unknown
+
+  return { type, ctime: 0, mtime: 0, size, permissions: FilePermission.Readonly }
+}
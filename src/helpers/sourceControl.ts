@@ -0,0 +1,258 @@
+import Path from 'node:path'
+import {
+  type SourceControl,
+  type SourceControlResourceGroup,
+  type SourceControlResourceState,
+  type TextDocumentShowOptions,
+  Uri,
+  scm,
+} from 'vscode'
+import { effect } from '@vue/reactivity'
+import debounce from 'lodash/debounce'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { getExtensionContext, useGitStore, usePatchStore } from '../stores'
+import type { AugmentedPatch, Project } from '../types'
+import type { RID } from '../types/node'
+import { type ChangedFile, getChangedFiles } from '../ux'
+import {
+  capitalizeFirstLetter,
+  exec,
+  getFirstAndLatestRevisions,
+  getGitExtensionAPI,
+  getRepoRoot,
+  git,
+  log,
+  shortenHash,
+} from '../utils'
+import { type PatchDiffSide, isRadInitialized, toRadUri } from '.'
+
+type ResourceGroupId = 'unannounced' | 'incoming' | 'checkedOutPatch'
+
+const resourceGroupLabels: Record<ResourceGroupId, string> = {
+  unannounced: 'Unannounced local changes',
+  incoming: 'Incoming from seeds',
+  checkedOutPatch: 'Checked-out patch diff vs target',
+}
+
+let sourceControl:
+  | { instance: SourceControl; groups: Record<ResourceGroupId, SourceControlResourceGroup> }
+  | undefined
+/**
+ * The canonical head of the project as last reported by the Radicle node, against which the
+ * quick diff of the files in the workspace is shown.
+ */
+let canonicalHead: { rid: RID; commit: string; isAvailableLocally: boolean } | undefined
+let latestRefreshId = 0
+
+/**
+ * Re-resolves the contents of all resource groups of the Radicle source control provider
+ * and the project's canonical head used for quick diffs.
+ */
+export const refreshRadicleSourceControl = debounce(async (): Promise<void> => {
+  const refreshId = ++latestRefreshId
+
+  const repoRoot = getRepoRoot()
+  if (!repoRoot || !isRadInitialized()) {
+    return
+  }
+  const { groups } = getOrCreateSourceControl(repoRoot)
+
+  const { data: rid } = await getNodeConnection().getCurrentProjectId()
+  const project = rid ? (await getNodeConnection().getProject(rid)).data : undefined
+  const checkedOutPatch = usePatchStore().checkedOutPatch
+
+  const [unannounced, incoming, checkedOutPatchChanges] = await Promise.all([
+    getResourceStates(() => getUnannouncedChanges(project), repoRoot),
+    getResourceStates(() => getIncomingChanges(project), repoRoot),
+    getResourceStates(() => getCheckedOutPatchChanges(checkedOutPatch), repoRoot),
+  ])
+  if (refreshId !== latestRefreshId) {
+    // a newer refresh got triggered while this one was in progress
+    return
+  }
+
+  canonicalHead =
+    rid && project
+      ? {
+          rid,
+          commit: project.head,
+          isAvailableLocally: isCommitAvailableLocally(project.head),
+        }
+      : undefined
+  groups.unannounced.resourceStates = unannounced
+  groups.incoming.resourceStates = incoming
+  groups.checkedOutPatch.resourceStates = checkedOutPatchChanges
+  groups.checkedOutPatch.label = checkedOutPatch
+    ? `${resourceGroupLabels.checkedOutPatch} (${shortenHash(checkedOutPatch.id)})`
+    : resourceGroupLabels.checkedOutPatch
+}, 300)
+
+/**
+ * Registers the Radicle source control provider, listing the changes between the workspace,
+ * the project's canonical head and the checked-out patch.
+ *
+ * The provider itself only gets created once the workspace is found to be rad-initialized.
+ */
+export function registerRadicleSourceControl(): void {
+  effect(() => {
+    // re-run whenever the checked-out branch or patch changes
+    void [useGitStore().currentBranch, usePatchStore().checkedOutPatch]
+
+    refreshRadicleSourceControl()
+  })
+}
+
+function getOrCreateSourceControl(repoRoot: string): NonNullable<typeof sourceControl> {
+  if (sourceControl) {
+    return sourceControl
+  }
+
+  const instance = scm.createSourceControl('radicle', 'Radicle', Uri.file(repoRoot))
+  instance.inputBox.visible = false
+  instance.quickDiffProvider = {
+    provideOriginalResource: (uri) => {
+      const relativePath = Path.relative(repoRoot, uri.fsPath)
+      if (!canonicalHead || uri.scheme !== 'file' || relativePath.startsWith('..')) {
+        return undefined
+      }
+
+      return canonicalHead.isAvailableLocally
+        ? getGitExtensionAPI().toGitUri(uri, canonicalHead.commit)
+        : toRadUri(canonicalHead.rid, canonicalHead.commit, relativePath)
+    },
+  }
+
+  const groups = Object.fromEntries(
+    Object.entries(resourceGroupLabels).map(([id, label]) => {
+      const group = instance.createResourceGroup(id, label)
+      group.hideWhenEmpty = true
+
+      return [id, group]
+    }),
+  ) as Record<ResourceGroupId, SourceControlResourceGroup>
+
+  getExtensionContext().subscriptions.push(instance, ...Object.values(groups))
+  sourceControl = { instance, groups }
+
+  return sourceControl
+}
+
+/**
+ * Resolves the changes committed locally that haven't been pushed to the `rad` remote yet,
+ * and are thus unknown to the Radicle node and the network.
+ */
+function getUnannouncedChanges(project: Project | undefined) {
+  const upstream = exec(
+    git('rev-parse', '--verify', '--quiet', '--symbolic-full-name', '@{upstream}'),
+    { cwd: '$workspaceDir' },
+  )
+  const radUpstream = upstream?.startsWith('refs/remotes/rad/')
+    ? upstream
+    : project && `refs/remotes/rad/${project.defaultBranch}`
+  const head = exec(git('rev-parse', '--verify', '--quiet', 'HEAD'), { cwd: '$workspaceDir' })
+  const base =
+    radUpstream && exec(git('merge-base', radUpstream, 'HEAD'), { cwd: '$workspaceDir' })
+
+  return head && base && base !== head ? { old: base, new: head } : undefined
+}
+
+/**
+ * Resolves the changes of the project's canonical head, as known to the Radicle node, that
+ * haven't been merged into the local `HEAD` yet.
+ */
+function getIncomingChanges(project: Project | undefined) {
+  if (!project) {
+    return undefined
+  }
+
+  const base = isCommitAvailableLocally(project.head)
+    ? exec(git('merge-base', '--end-of-options', 'HEAD', project.head), {
+        cwd: '$workspaceDir',
+      })
+    : // commits that were never fetched locally are diffed by the node against the last
+      // fetched state of the default branch instead
+      exec(
+        git('rev-parse', '--verify', '--quiet', `refs/remotes/rad/${project.defaultBranch}`),
+        { cwd: '$workspaceDir' },
+      )
+
+  return base && base !== project.head ? { old: base, new: project.head } : undefined
+}
+
+/**
+ * Resolves the changes of the latest revision of the checked-out patch against the commit
+ * of the target branch it is based on.
+ */
+function getCheckedOutPatchChanges(patch: AugmentedPatch | undefined) {
+  if (!patch) {
+    return undefined
+  }
+
+  const { latestRevision } = getFirstAndLatestRevisions(patch)
+
+  return { old: latestRevision.base, new: latestRevision.oid, patch }
+}
+
+async function getResourceStates(
+  getRange: () => { old: string; new: string; patch?: AugmentedPatch } | undefined,
+  repoRoot: string,
+): Promise<SourceControlResourceState[]> {
+  const range = getRange()
+  if (!range) {
+    return []
+  }
+
+  let changedFiles: ChangedFile[]
+  try {
+    changedFiles = await getChangedFiles(range)
+  } catch (error) {
+    log(error instanceof Error ? error.message : String(error), 'error')
+
+    return []
+  }
+
+  return changedFiles
+    .map((file) => toResourceState(file, range, repoRoot))
+    .sort((s1, s2) => s1.resourceUri.fsPath.localeCompare(s2.resourceUri.fsPath))
+}
+
+function toResourceState(
+  file: ChangedFile,
+  range: { old: string; new: string; patch?: AugmentedPatch },
+  repoRoot: string,
+): SourceControlResourceState {
+  const { state, oldPath, newPath, oldVersionUri, newVersionUri } = file
+  const basename = Path.basename(newPath)
+  const isMoveOrCopy = state === 'moved' || state === 'copied'
+
+  return {
+    resourceUri: Uri.file(Path.join(repoRoot, newPath)),
+    decorations: {
+      strikeThrough: state === 'deleted',
+      tooltip: `${isMoveOrCopy ? `${oldPath} ➟ ` : ''}${capitalizeFirstLetter(state)}`,
+    },
+    command: {
+      command: 'radicle.openDiff',
+      title: 'Open changes',
+      arguments: [
+        oldVersionUri,
+        newVersionUri,
+        `${basename} (${shortenHash(range.old)} ⟷ ${shortenHash(range.new)})`,
+        { preview: true } satisfies TextDocumentShowOptions,
+        range.patch &&
+          ({
+            original: { patchId: range.patch.id, path: oldPath, commit: range.old },
+            changed: { patchId: range.patch.id, path: newPath, commit: range.new },
+          } satisfies { original: PatchDiffSide; changed: PatchDiffSide }),
+      ],
+    },
+  }
+}
+
+function isCommitAvailableLocally(commit: string): boolean {
+  return (
+    exec(git('cat-file', '-e', '--end-of-options', `${commit}^{commit}`), {
+      cwd: '$workspaceDir',
+    }) !== undefined
+  )
+}
@@ -0,0 +1,164 @@
+import { log, setWhenClauseContext } from '../utils'
+
+type Component = 'rad' | 'httpd'
+
+/**
+ * The range of versions of each component of the Radicle stack the extension supports.
+ * Versions below `min` lack capabilities the extension depends on, whereas versions at or
+ * above `below` haven't been tested with and may have breaking changes.
+ */
+export const supportedVersionRanges: Record<Component, { min: string; below: string }> = {
+  rad: { min: '0.8.0', below: '2.0.0' },
+  httpd: { min: '0.10.0', below: '1.0.0' },
+}
+
+/**
+ * The minimum version of each component required by each feature set, keyed by the `when`
+ * clause context key gating the commands of that feature set in package.json.
+ *
+ * A requirement on a component whose version hasn't been detected (e.g. because httpd is
+ * not in use) is considered met, in order to not disable features that may well work.
+ */
+const featureRequirements = {
+  // sync, fetch, announce
+  'radicle.supportsSync': { rad: '0.8.0' },
+  // check out a patch's revision
+  'radicle.supportsPatchCheckout': { rad: '0.8.0' },
+  // create, update, review and merge patches
+  'radicle.supportsPatchAuthoring': { rad: '1.0.0' },
+  // archive, reopen, mark as ready or draft and comment on patches
+  'radicle.supportsPatchStateChanges': { rad: '0.8.0' },
+  // browse the files of any project at any commit
+  'radicle.supportsRepoBrowsing': { httpd: '0.11.0' },
+} as const satisfies Record<string, Partial<Record<Component, string>>>
+
+export type Feature = keyof typeof featureRequirements
+
+const detectedVersions: Partial<Record<Component, string>> = {}
+
+const componentNames: Record<Component, string> = {
+  rad: 'Radicle CLI',
+  httpd: 'Radicle HTTP API',
+}
+
+/**
+ * Records the version of the Radicle CLI detected on the host OS, if any, and updates which
+ * feature sets are enabled accordingly.
+ */
+export function setDetectedRadCliVersion(version: string | undefined): void {
+  setDetectedVersion('rad', version)
+}
+
+/**
+ * Records the version of `radicle-httpd` as reported by its root endpoint, if any, and
+ * updates which feature sets are enabled accordingly.
+ */
+export function setDetectedHttpdVersion(version: string | undefined): void {
+  setDetectedVersion('httpd', version)
+}
+
+/**
+ * Answers whether the detected versions of the Radicle stack meet the requirements of the
+ * given feature set.
+ */
+export function isFeatureSupported(feature: Feature): boolean {
+  const requirements: Partial<Record<Component, string>> = featureRequirements[feature]
+
+  return (Object.keys(requirements) as Component[]).every((component) => {
+    const detectedVersion = detectedVersions[component]
+    const requiredVersion = requirements[component]
+
+    return (
+      !detectedVersion ||
+      !requiredVersion ||
+      compareVersions(detectedVersion, requiredVersion) >= 0
+    )
+  })
+}
+
+/**
+ * Resolves how the detected version of a component relates to the range of versions
+ * supported by the extension.
+ */
+export function getVersionCompatibility(
+  component: Component,
+): 'supported' | 'tooOld' | 'tooNew' | 'unknown' {
+  const version = detectedVersions[component]
+  if (!version) {
+    return 'unknown'
+  }
+
+  const { min, below } = supportedVersionRanges[component]
+  if (compareVersions(version, min) < 0) {
+    return 'tooOld'
+  } else if (compareVersions(version, below) >= 0) {
+    return 'tooNew'
+  }
+
+  return 'supported'
+}
+
+function setDetectedVersion(component: Component, version: string | undefined): void {
+  const previousCompatibility = getVersionCompatibility(component)
+  detectedVersions[component] = version
+  const compatibility = getVersionCompatibility(component)
+
+  if (compatibility !== previousCompatibility) {
+    const { min, below } = supportedVersionRanges[component]
+    compatibility === 'tooOld' &&
+      log(
+        `${componentNames[component]} v${version} is older than the oldest version supported \
+        by the extension (v${min}). Commands requiring a newer version have been disabled.`,
+        'warn',
+      )
+    compatibility === 'tooNew' &&
+      log(
+        `${componentNames[component]} v${version} is newer than the versions the extension \
+        has been tested with (below v${below}). Some features may misbehave.`,
+        'warn',
+      )
+  }
+
+  setWhenClauseContext(
+    'radicle.isRadCliVersionTooOld',
+    getVersionCompatibility('rad') === 'tooOld',
+  )
+  setWhenClauseContext(
+    'radicle.isRadCliVersionTooNew',
+    getVersionCompatibility('rad') === 'tooNew',
+  )
+  setWhenClauseContext(
+    'radicle.isHttpdVersionTooOld',
+    getVersionCompatibility('httpd') === 'tooOld',
+  )
+  setWhenClauseContext(
+    'radicle.isHttpdVersionTooNew',
+    getVersionCompatibility('httpd') === 'tooNew',
+  )
+  const features = Object.keys(featureRequirements) as Feature[]
+  features.forEach((feature) => {
+    setWhenClauseContext(feature, isFeatureSupported(feature))
+  })
+}
+
+/**
+ * Compares two versions by their numeric `major.minor.patch` components, ignoring any
+ * pre-release or build suffix.
+ *
+ * @returns A negative number if `v1` is lower than `v2`, a positive one if higher, or `0` if
+ * they are equal.
+ */
+function compareVersions(v1: string, v2: string): number {
+  const [parts1, parts2] = [v1, v2].map((version) =>
+    (version.match(/\d+(\.\d+){0,2}/)?.[0] ?? '0').split('.').map(Number),
+  ) as [number[], number[]]
+
+  for (let i = 0; i < 3; i++) {
+    const diff = (parts1[i] ?? 0) - (parts2[i] ?? 0)
+    if (diff) {
+      return diff
+    }
+  }
+
+  return 0
+}
@@ -1,17 +1,27 @@
 import { window } from 'vscode'
 import { effect } from '@vue/reactivity'
-import { usePatchStore } from '../stores'
+import { getExtensionContext, useIssueStore, usePatchStore } from '../stores'
 import { getTimeAgo } from '../utils'
-import type { AugmentedPatch } from '../types'
-import { patchesTreeDataProvider } from '../ux'
+import type { AugmentedIssue, AugmentedPatch } from '../types'
+import {
+  incomingOutgoingTreeDataProvider,
+  issuesTreeDataProvider,
+  nodeStatusTreeDataProvider,
+  patchesTreeDataProvider,
+  rerenderNodeStatusView,
+} from '../ux'
 
 let patchesView: ReturnType<typeof registerPatchesView> | undefined
+let issuesView: ReturnType<typeof registerIssuesView> | undefined
 
 /**
  * Initializes and registers all Views dependent on a JS provider.
  */
 export function registerAllViews(): void {
   patchesView = registerPatchesView()
+  issuesView = registerIssuesView()
+  registerIncomingOutgoingView()
+  registerNodeStatusView()
 }
 
 function registerPatchesView() {
@@ -38,6 +48,57 @@ function registerPatchesView() {
   return patchesView
 }
 
-export function revealPatch(patch: AugmentedPatch): void {
-  patchesView?.reveal(patch)
+function registerIssuesView() {
+  const issuesView = window.createTreeView('issues-view', {
+    treeDataProvider: issuesTreeDataProvider,
+  })
+
+  const updateIssuesViewDescription = effect(() => {
+    const issueCount = useIssueStore().issues?.length
+    const formattedIssueCount = typeof issueCount === 'number' ? `${issueCount} · ` : ''
+
+    const lastFetchedTs = useIssueStore().lastFetchedTs
+    if (lastFetchedTs) {
+      issuesView.description = `${formattedIssueCount}Updated ${getTimeAgo(lastFetchedTs)}`
+    }
+  })
+  setInterval(() => {
+    updateIssuesViewDescription()
+  }, 30_000)
+
+  return issuesView
+}
+
+function registerIncomingOutgoingView() {
+  getExtensionContext().subscriptions.push(
+    window.createTreeView('incoming-outgoing-view', {
+      treeDataProvider: incomingOutgoingTreeDataProvider,
+      showCollapseAll: true,
+    }),
+  )
+}
+
+function registerNodeStatusView() {
+  const nodeStatusView = window.createTreeView('node-status-view', {
+    treeDataProvider: nodeStatusTreeDataProvider,
+  })
+
+  // peers come and go, so keep the view fresh while it's visible
+  const interval = setInterval(() => {
+    nodeStatusView.visible && rerenderNodeStatusView()
+  }, 15_000)
+
+  getExtensionContext().subscriptions.push(nodeStatusView, {
+    dispose: () => {
+      clearInterval(interval)
+    },
+  })
+}
+
+export function revealPatch(patch: AugmentedPatch, options?: { expand?: boolean }): void {
+  patchesView?.reveal(patch, options)
+}
+
+export function revealIssue(issue: AugmentedIssue): void {
+  issuesView?.reveal(issue)
 }
@@ -9,8 +9,11 @@ import {
 import {
   getExtensionContext,
   useEnvStore,
+  useIssueStore,
   usePatchStore,
+  useProjectStore,
   useWebviewStore,
+  webviewIssueDetailId,
   webviewPatchDetailId,
 } from '../stores'
 import { assertUnreachable, getNonce, truncateKeepWords } from '../utils'
@@ -18,32 +21,57 @@ import {
   type notifyExtension,
   notifyWebview as notifyWebviewBase,
 } from '../utils/webview-messaging'
-import type { AugmentedPatch, PatchDetailInjectedState } from '../types'
-import { checkOutDefaultBranch, checkOutPatch, copyToClipboardAndNotify } from '../ux'
-import { getRadicleIdentity, revealPatch } from '.'
+import {
+  type AugmentedIssue,
+  type AugmentedPatch,
+  type Issue,
+  type IssueDetailInjectedState,
+  type Patch,
+  type PatchDetailInjectedState,
+  type WebviewInjectedState,
+  isPatch,
+} from '../types'
+import {
+  changePatchState,
+  checkOutDefaultBranch,
+  checkOutPatch,
+  commentOnPatchRevision,
+  copyToClipboardAndNotify,
+  mergePatch,
+  reviewPatch,
+} from '../ux'
+import { getRadicleIdentity, revealIssue, revealPatch } from '.'
+
+type WebviewId = WebviewInjectedState['kind']
 
 // TODO: make the solution in file more generic, not only useful to a specific webview
 // TODO: move this file (and other found in helpers) to "/services" or "/providers"
 
 /**
- * Opens a panel with the specified webview in the active column.
+ * Opens a panel with the webview detailing the specified patch or issue in the active column.
  *
  * If the webview is already open and visible in another column it will be moved to the active
  * column without getting re-created.
- *
- * @param [title] - The title shown on the webview panel's tab
  */
-export function createOrShowWebview(ctx: ExtensionContext, patch: AugmentedPatch) {
+export function createOrShowWebview(
+  ctx: ExtensionContext,
+  patchOrIssue: AugmentedPatch | AugmentedIssue,
+) {
   const column = window.activeTextEditor ? window.activeTextEditor.viewColumn : undefined
 
+  const webviewId = getWebviewId(patchOrIssue)
   const webviewStore = useWebviewStore()
-  const foundPanel = webviewStore.findPanel(webviewPatchDetailId)
+  const foundPanel = webviewStore.findPanel(webviewId)
 
   // If panel already exists and is usable then re-use it
 
   if (foundPanel && !webviewStore.isPanelDisposed(foundPanel)) {
-    notifyWebview({ command: 'updateState', payload: getStateForWebview(patch) })
-    foundPanel.title = getPanelTitle(patch)
+    webviewStore.trackPanel(foundPanel, patchOrIssue.id)
+    notifyWebview(
+      { command: 'updateState', payload: getStateForWebview(patchOrIssue) },
+      webviewId,
+    )
+    foundPanel.title = getPanelTitle(patchOrIssue)
 
     foundPanel.reveal(column)
 
@@ -53,8 +81,8 @@ export function createOrShowWebview(ctx: ExtensionContext, patch: AugmentedPatch
   // Otherwise create new panel from scratch
 
   const newPanel = window.createWebviewPanel(
-    webviewPatchDetailId,
-    getPanelTitle(patch),
+    webviewId,
+    getPanelTitle(patchOrIssue),
     column || ViewColumn.One,
     {
       enableScripts: true,
@@ -66,18 +94,28 @@ export function createOrShowWebview(ctx: ExtensionContext, patch: AugmentedPatch
       enableFindWidget: true,
     },
   )
-  webviewStore.trackPanel(newPanel)
+  webviewStore.trackPanel(newPanel, patchOrIssue.id)
+
+  newPanel.webview.html = getWebviewHtml(newPanel.webview, getStateForWebview(patchOrIssue))
+
+  registerWebviewMessageHandler(newPanel, ctx)
 
-  newPanel.webview.html = getWebviewHtml(newPanel.webview, getStateForWebview(patch))
+  newPanel.onDidDispose(
+    () => webviewStore.untrackPanel(newPanel),
+    undefined,
+    ctx.subscriptions,
+  )
+}
 
-  newPanel.webview.onDidReceiveMessage(
+function registerWebviewMessageHandler(panel: WebviewPanel, ctx: ExtensionContext) {
+  panel.webview.onDidReceiveMessage(
     async (message: Parameters<typeof notifyExtension>['0']) => {
       switch (message.command) {
         case 'showInfoNotification': {
           const button = 'Reset Count'
           window.showInformationMessage(message.payload.text, button).then((userSelection) => {
             userSelection === button &&
-              notifyWebview({ command: 'resetCount', payload: undefined })
+              notifyWebview({ command: 'resetCount', payload: undefined }, panel.viewType)
           })
           break
         }
@@ -85,10 +123,10 @@ export function createOrShowWebview(ctx: ExtensionContext, patch: AugmentedPatch
           copyToClipboardAndNotify(message.payload.textToCopy)
           break
         case 'refreshPatchData':
-          usePatchStore().refetchPatch(message.payload.patchId)
+          await refetchPatchAndUpdateWebview(message.payload.patchId)
           break
         case 'checkOutPatchBranch':
-          checkOutPatch(message.payload.patch)
+          await checkOutPatch(message.payload.patch)
           break
         case 'checkOutDefaultBranch':
           await checkOutDefaultBranch()
@@ -96,6 +134,31 @@ export function createOrShowWebview(ctx: ExtensionContext, patch: AugmentedPatch
         case 'revealInPatchesView':
           revealPatch(message.payload.patch)
           break
+        case 'reviewPatch':
+          await reviewPatch(message.payload.patch)
+          break
+        case 'mergePatch':
+          await mergePatch(message.payload.patch)
+          break
+        case 'changePatchState':
+          await changePatchState(message.payload.patch, message.payload.status)
+          break
+
+        case 'commentOnPatch': {
+          const didComment = await commentOnPatchRevision(message.payload)
+          didComment && (await refetchPatchAndUpdateWebview(message.payload.patchId))
+          notifyWebview(
+            { command: 'commentSubmitted', payload: { didSucceed: didComment } },
+            panel.viewType,
+          )
+          break
+        }
+        case 'refreshIssueData':
+          await refetchIssueAndUpdateWebview(message.payload.issueId)
+          break
+        case 'revealInIssuesView':
+          revealIssue(message.payload.issue)
+          break
         default:
           assertUnreachable(message)
       }
@@ -103,30 +166,68 @@ export function createOrShowWebview(ctx: ExtensionContext, patch: AugmentedPatch
     undefined,
     ctx.subscriptions,
   )
+}
 
-  newPanel.onDidDispose(
-    () => webviewStore.untrackPanel(newPanel),
-    undefined,
-    ctx.subscriptions,
+/**
+ * Pushes the latest known state of the given patch or issue to the webview detailing it,
+ * if such a webview is currently open and showing that specific patch or issue.
+ */
+export function updateWebviewIfShowing(patchOrIssue: AugmentedPatch | AugmentedIssue): void {
+  const webviewId = getWebviewId(patchOrIssue)
+  if (useWebviewStore().findShownItemId(webviewId) !== patchOrIssue.id) {
+    return
+  }
+
+  notifyWebview(
+    { command: 'updateState', payload: getStateForWebview(patchOrIssue) },
+    webviewId,
   )
 }
 
-export function notifyWebview(message: Parameters<typeof notifyWebviewBase>['0']): void {
-  const panel = useWebviewStore().patchDetailPanel
+/**
+ * Refetches the specified patch and updates the webview detailing it, if any.
+ */
+export async function refetchPatchAndUpdateWebview(patchId: Patch['id']): Promise<void> {
+  const patchStore = usePatchStore()
+  await patchStore.refetchPatch(patchId)
+
+  const patch = patchStore.findPatchById(patchId)
+  patch && updateWebviewIfShowing(patch)
+}
+
+async function refetchIssueAndUpdateWebview(issueId: Issue['id']): Promise<void> {
+  const issueStore = useIssueStore()
+  await issueStore.refetchIssue(issueId)
+
+  const issue = issueStore.findIssueById(issueId)
+  issue && updateWebviewIfShowing(issue)
+}
+
+export function notifyWebview(
+  message: Parameters<typeof notifyWebviewBase>['0'],
+  webviewId: string,
+): void {
+  const panel = useWebviewStore().findPanel(webviewId)
   panel && notifyWebviewBase(message, panel.webview)
 }
 
 // Restores the webview across restarts using persisted state.
 // See https://code.visualstudio.com/api/extension-guides/webview#serialization
 export function registerAllWebviewRestorators() {
-  getExtensionContext().subscriptions.push(
-    window.registerWebviewPanelSerializer(webviewPatchDetailId, {
-      // eslint-disable-next-line @typescript-eslint/require-await, require-await
-      deserializeWebviewPanel: async (_panel: WebviewPanel, _state: unknown) => {
-        _panel.webview.html = getWebviewHtml(_panel.webview)
-        useWebviewStore().trackPanel(_panel)
-      },
-    }),
+  const webviewIds: WebviewId[] = [webviewPatchDetailId, webviewIssueDetailId]
+
+  webviewIds.forEach((webviewId) =>
+    getExtensionContext().subscriptions.push(
+      window.registerWebviewPanelSerializer(webviewId, {
+        // eslint-disable-next-line @typescript-eslint/require-await, require-await
+        deserializeWebviewPanel: async (_panel: WebviewPanel, _state: unknown) => {
+          const state = _state as WebviewInjectedState | undefined
+          _panel.webview.html = getWebviewHtml(_panel.webview)
+          useWebviewStore().trackPanel(_panel, state?.id)
+          registerWebviewMessageHandler(_panel, getExtensionContext())
+        },
+      }),
+    ),
   )
 }
 
@@ -181,18 +282,46 @@ function getWebviewHtml<State extends object>(webview: Webview, state?: State) {
   return html
 }
 
-function getStateForWebview(patch: AugmentedPatch): PatchDetailInjectedState {
-  const isCheckedOut = patch.id === usePatchStore().checkedOutPatch?.id
+function getWebviewId(patchOrIssue: AugmentedPatch | AugmentedIssue): WebviewId {
+  return isPatch(patchOrIssue) ? webviewPatchDetailId : webviewIssueDetailId
+}
 
+function getStateForWebview(patch: AugmentedPatch): PatchDetailInjectedState
+function getStateForWebview(issue: AugmentedIssue): IssueDetailInjectedState
+function getStateForWebview(
+  patchOrIssue: AugmentedPatch | AugmentedIssue,
+): PatchDetailInjectedState | IssueDetailInjectedState
+function getStateForWebview(
+  patchOrIssue: AugmentedPatch | AugmentedIssue,
+): PatchDetailInjectedState | IssueDetailInjectedState {
   const identity = getRadicleIdentity('DID')
   const localIdentity = identity ? { id: identity.DID, alias: identity.alias } : undefined
 
+  if (!isPatch(patchOrIssue)) {
+    const issue = patchOrIssue
+    const state: IssueDetailInjectedState = {
+      kind: webviewIssueDetailId,
+      id: issue.id,
+      state: {
+        issue,
+        localIdentity,
+        timeLocale: useEnvStore().timeLocaleBcp47,
+      },
+    }
+
+    return state
+  }
+
+  const patch = patchOrIssue
+  const isCheckedOut = patch.id === usePatchStore().checkedOutPatch?.id
+
   const state: PatchDetailInjectedState = {
     kind: webviewPatchDetailId,
     id: patch.id,
     state: {
       patch: { ...patch, isCheckedOut },
       localIdentity,
+      isLocalIdentityDelegate: useProjectStore().isLocalIdentityDelegate,
       timeLocale: useEnvStore().timeLocaleBcp47,
     },
   }
@@ -200,10 +329,10 @@ function getStateForWebview(patch: AugmentedPatch): PatchDetailInjectedState {
   return state
 }
 
-function getPanelTitle(patch: AugmentedPatch) {
-  const truncatedTitle = truncateKeepWords(patch.title, 30)
+function getPanelTitle(patchOrIssue: AugmentedPatch | AugmentedIssue) {
+  const truncatedTitle = truncateKeepWords(patchOrIssue.title, 30)
 
-  return `${truncatedTitle}${truncatedTitle.length < patch.title.length ? ' …' : ''}`
+  return `${truncatedTitle}${truncatedTitle.length < patchOrIssue.title.length ? ' …' : ''}`
 }
 
 function getUri(webview: Webview, extensionUri: Uri, pathList: string[]): Uri {
@@ -1,5 +1,7 @@
 export * from './context'
 export * from './envStore'
 export * from './gitStore'
+export * from './issueStore'
 export * from './patchStore'
+export * from './projectStore'
 export * from './webviewStore'
@@ -0,0 +1,102 @@
+import { createPinia, defineStore, setActivePinia } from 'pinia'
+import { effect, ref } from '@vue/reactivity'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { rerenderAllItemsInIssuesView, rerenderSomeItemsInIssuesView } from '../ux'
+import { memoizedGetCurrentProjectId } from '../helpers'
+import type { AugmentedIssue, Issue } from '../types'
+
+setActivePinia(createPinia())
+
+export const useIssueStore = defineStore('issue', () => {
+  const issues = ref<AugmentedIssue[]>()
+
+  effect(() => {
+    issues.value ? rerenderSomeItemsInIssuesView(issues.value) : rerenderAllItemsInIssuesView()
+  })
+
+  function resetAllIssues() {
+    issues.value = undefined
+  }
+
+  async function refetchIssue(issueId: Issue['id']) {
+    const { data: rid } = await getNodeConnection().getCurrentProjectId()
+    if (!rid) {
+      return { error: new Error('Failed resolving RID') }
+    }
+
+    const nowTs = Date.now() / 1000 // we devide to align with the httpd's timestamp format
+    const { data: fetchedIssue, error } = await getNodeConnection().fetchIssue(rid, issueId)
+    if (error) {
+      return { error }
+    }
+
+    const outdatedIssue = findIssueById(fetchedIssue.id)
+    const augmentedFetchedIssue = { ...fetchedIssue, ...{ lastFetchedTs: nowTs } }
+    if (outdatedIssue) {
+      // we use `Object.assign()` to keep the same object ref
+      Object.assign(outdatedIssue, augmentedFetchedIssue)
+    } else {
+      if (!issues.value) {
+        issues.value = []
+      }
+      issues.value.push(augmentedFetchedIssue)
+    }
+
+    return {}
+  }
+
+  function findIssueById(partialOrWholeId: string) {
+    const foundIssue = issues.value?.find((issue) => issue.id.includes(partialOrWholeId))
+
+    return foundIssue
+  }
+
+  const lastFetchedTs = ref<number>()
+  let inProgressRequest: Promise<unknown> | undefined
+  async function fetchAllIssues() {
+    if (inProgressRequest) {
+      await inProgressRequest
+
+      return true
+    }
+
+    const rid = memoizedGetCurrentProjectId()
+    if (!rid) {
+      return false
+    }
+    const nowTs = Date.now() / 1000 // we devide to align with the httpd's timestamp format
+    lastFetchedTs.value = nowTs
+    const promisedResponses = getNodeConnection()
+      .fetchAllIssues(rid)
+      .finally(() => (inProgressRequest = undefined))
+    inProgressRequest = promisedResponses
+
+    const responses = await promisedResponses
+    const errors = responses.map((response) => response.error).filter(Boolean)
+    if (errors.length) {
+      return false
+    }
+
+    const fetchedIssues = responses
+      .flatMap((response) => response.data)
+      .filter(Boolean)
+      .map((fetchedIssue) => ({ ...fetchedIssue, ...{ lastFetchedTs: nowTs } }))
+
+    issues.value = fetchedIssues
+
+    return true
+  }
+
+  async function initStoreIfNeeded() {
+    return !issues.value && (await fetchAllIssues())
+  }
+
+  return {
+    issues,
+    lastFetchedTs,
+    findIssueById,
+    resetAllIssues,
+    refetchIssue,
+    initStoreIfNeeded,
+  }
+})
@@ -4,6 +4,7 @@ import { getNodeConnection } from 'src/utils/nodeConnection'
 import { rerenderAllItemsInPatchesView, rerenderSomeItemsInPatchesView } from '../ux'
 import { memoizedGetCurrentProjectId } from '../helpers'
 import type { AugmentedPatch, Patch } from '../types'
+import type { SettablePatchStatus } from '../types/node'
 import { useGitStore } from '.'
 
 setActivePinia(createPinia())
@@ -69,6 +70,50 @@ export const usePatchStore = defineStore('patch', () => {
     return {}
   }
 
+  /**
+   * Transitions the patch to the given state. The change is reflected in the store
+   * optimistically, before the node has confirmed it. If the node fails to apply it, the
+   * patch gets refetched since the change may have been applied partially, being rolled back
+   * only if that fails too.
+   */
+  async function changePatchState(patchId: Patch['id'], status: SettablePatchStatus) {
+    const { data: rid } = await getNodeConnection().getCurrentProjectId()
+    if (!rid) {
+      return { error: new Error('Failed resolving RID') }
+    }
+
+    const patch = findPatchById(patchId)
+    if (!patch) {
+      return { error: new Error(`Failed finding patch with id ${patchId}`) }
+    }
+
+    const prevState = patch.state
+    patch.state = { status }
+    rerenderSomeItemsInPatchesView(patch)
+
+    const nowTs = Date.now() / 1000 // we devide to align with the httpd's timestamp format
+    const { data: updatedPatch, error } = await getNodeConnection().changePatchState(
+      rid,
+      patch.id,
+      status,
+    )
+    if (error) {
+      const { error: refetchError } = await refetchPatch(patch.id)
+      if (refetchError) {
+        patch.state = prevState
+      }
+      rerenderSomeItemsInPatchesView(patch)
+
+      return { error }
+    }
+
+    // we use `Object.assign()` to keep the same object ref
+    Object.assign(patch, { ...updatedPatch, ...{ lastFetchedTs: nowTs } })
+    rerenderSomeItemsInPatchesView(patch)
+
+    return {}
+  }
+
   function findPatchById(partialOrWholeId: string) {
     const foundPatch = patches.value?.find((patch) => patch.id.includes(partialOrWholeId))
 
@@ -122,6 +167,7 @@ export const usePatchStore = defineStore('patch', () => {
     findPatchById,
     resetAllPatches,
     refetchPatch,
+    changePatchState,
     initStoreIfNeeded,
   }
 })
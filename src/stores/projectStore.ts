@@ -0,0 +1,35 @@
+import { createPinia, defineStore, setActivePinia } from 'pinia'
+import { effect, ref } from '@vue/reactivity'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { getRadicleIdentity } from '../helpers'
+import { setWhenClauseContext } from '../utils'
+
+setActivePinia(createPinia())
+
+export const useProjectStore = defineStore('project', () => {
+  const isLocalIdentityDelegate = ref(false)
+
+  effect(() => {
+    setWhenClauseContext('radicle.isLocalIdentityDelegate', isLocalIdentityDelegate.value)
+  })
+
+  /**
+   * Re-evaluates whether the Radicle identity currently in use is one of the delegates of
+   * the Radicle project currently open in the workspace.
+   *
+   * @returns A promise that resolves to the re-evaluated value
+   */
+  async function refreshIsLocalIdentityDelegate() {
+    const { data: rid } = await getNodeConnection().getCurrentProjectId()
+    const project = rid ? (await getNodeConnection().getProject(rid)).data : undefined
+    const localDid = getRadicleIdentity('DID')?.DID
+
+    isLocalIdentityDelegate.value = Boolean(
+      project && localDid && project.delegates.includes(localDid),
+    )
+
+    return isLocalIdentityDelegate.value
+  }
+
+  return { isLocalIdentityDelegate, refreshIsLocalIdentityDelegate }
+})
@@ -8,20 +8,31 @@ setActivePinia(createPinia())
 // TODO: maninak on shift/alt + click on item button to open webview, open always in newtab
 
 export const webviewPatchDetailId = 'webview-patch-detail'
+export const webviewIssueDetailId = 'webview-issue-detail'
 
 export const useWebviewStore = defineStore('webviewStore', () => {
   const panels = reactive<Map<string, WebviewPanel>>(new Map())
+  /**
+   * The id of the patch or issue each tracked panel is currently showing, keyed by the
+   * panel's `viewType`.
+   */
+  const shownItemIds = reactive<Map<string, string>>(new Map())
 
   const patchDetailPanel = computed(() => panels.get(webviewPatchDetailId))
+  const issueDetailPanel = computed(() => panels.get(webviewIssueDetailId))
 
-  function trackPanel(panel: WebviewPanel) {
+  function trackPanel(panel: WebviewPanel, shownItemId?: string) {
     // TODO: maninak create a `const stateForWebview = computed(...)` and store it along with this panel?
     // Then call `effect(...)` that notifiesWebview to update its state whenever that computed is updated?
     // Maybe move `getStateForWebview()` from webview.ts in here and rename it `getComputedStateForPatchDetailWebview()`?
+    shownItemId && shownItemIds.set(panel.viewType, shownItemId)
+
     return panels.set(panel.viewType, panel)
   }
 
   function untrackPanel(panel: WebviewPanel) {
+    shownItemIds.delete(panel.viewType)
+
     return panels.delete(panel.viewType)
   }
 
@@ -29,6 +40,10 @@ export const useWebviewStore = defineStore('webviewStore', () => {
     return panels.get(id)
   }
 
+  function findShownItemId(id: string) {
+    return shownItemIds.get(id)
+  }
+
   function isPanelDisposed(panel: WebviewPanel) {
     try {
       // eslint-disable-next-line no-unused-expressions
@@ -40,5 +55,13 @@ export const useWebviewStore = defineStore('webviewStore', () => {
     }
   }
 
-  return { patchDetailPanel, trackPanel, untrackPanel, findPanel, isPanelDisposed }
+  return {
+    patchDetailPanel,
+    issueDetailPanel,
+    trackPanel,
+    untrackPanel,
+    findPanel,
+    findShownItemId,
+    isPanelDisposed,
+  }
 })
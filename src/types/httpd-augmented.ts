@@ -1,5 +1,9 @@
-import type { Patch } from '.'
+import type { Issue, Patch } from '.'
 
 export interface AugmentedPatch extends Patch {
   lastFetchedTs: number
 }
+
+export interface AugmentedIssue extends Issue {
+  lastFetchedTs: number
+}
@@ -29,6 +29,16 @@ export interface HttpdRoot {
   }[]
 }
 
+export interface HttpdNode {
+  id: NId
+  version: string
+  /**
+   * The node's config, if the node is running.
+   */
+  config: { alias: string } | null
+  state: 'running' | 'stopped'
+}
+
 export interface Project {
   id: string
   name: string
@@ -84,6 +94,36 @@ export function isPatch(x: unknown): x is Patch {
   return Boolean(isPatch)
 }
 
+export interface Issue {
+  id: string
+  author: RadicleIdentity
+  title: string
+  state: { status: 'open' } | { status: 'closed'; reason: 'other' | 'solved' }
+  assignees: RadicleIdentity[]
+  /**
+   * The first comment is the issue's description.
+   */
+  discussion: ArrayMinLength<Comment, 1>
+  labels: string[]
+}
+
+export type IssueStatus = Issue['state']['status']
+
+export function isIssue(x: unknown): x is Issue {
+  const issue = x as Partial<Issue> | undefined
+  const isIssue =
+    issue &&
+    typeof issue.id === 'string' &&
+    typeof issue.title === 'string' &&
+    issue.author &&
+    issue.state &&
+    issue.assignees &&
+    issue.discussion &&
+    issue.labels
+
+  return Boolean(isIssue)
+}
+
 export interface Revision {
   id: string
   author: RadicleIdentity
@@ -153,7 +193,7 @@ export interface CommentInlineWithCode {
   timestamp: number
 }
 
-interface CodeLocation {
+export interface CodeLocation {
   path: string
   commit: string
   lines: {
@@ -273,3 +313,32 @@ export interface LastCommit {
   committer: { name: string; email: string; time: number }
   parents: string[]
 }
+
+export interface Tree {
+  entries: TreeEntry[]
+  name: string
+  /**
+   * The path of the directory, relative to the repo root. Empty for the root itself.
+   */
+  path: string
+}
+
+export interface TreeEntry {
+  name: string
+  path: string
+  /**
+   * The value is the hash of a git object
+   */
+  oid: string
+  kind: 'blob' | 'tree' | 'submodule'
+}
+
+export interface Blob {
+  name: string
+  path: string
+  binary: boolean
+  /**
+   * The file's content as text or, if `binary` is `true`, encoded in base64.
+   */
+  content: string
+}
@@ -1,17 +1,108 @@
 import type { XOR } from 'ts-xor'
-import type { Patch, Project } from './httpd'
+import type {
+  Blob,
+  CodeLocation,
+  Comment,
+  DId,
+  DiffResponse,
+  Issue,
+  NId,
+  Patch,
+  PatchStatus,
+  Project,
+  Review,
+  Revision,
+  Tree,
+} from './httpd'
 
 export type Result<Data> = XOR<{ data: Data }, { error: Error }>
 export type RID = `rad:${string}`
 export interface ValidationOptions {
   minimizeUserNotifications: boolean
 }
+export interface NewIssue {
+  title: string
+  description: string
+  labels: string[]
+  assignees: DId[]
+}
+export interface NewPatchComment {
+  revisionId: Revision['id']
+  body: Comment['body']
+  replyTo?: Comment['id']
+  location?: CodeLocation
+}
+export interface NewPatchReview {
+  revisionId: Revision['id']
+  verdict?: Review['verdict']
+  summary?: Review['summary']
+}
+export interface LocalIdentity {
+  did: DId
+  nid: NId
+  alias?: string
+}
+export interface NodePeer {
+  /**
+   * The peer's Node ID, which may be shortened (e.g. `z6MksFq…VBQ8jeU`) depending on the
+   * connection to the node.
+   */
+  nid: NId
+  alias?: string
+  /**
+   * The address the session with the peer was established over, e.g. `seed.radicle.xyz:8776`.
+   */
+  addr: string
+  state: 'initial' | 'attempted' | 'connected' | 'disconnected'
+  /**
+   * Whether the session was initiated by the peer (`inbound`) or by the local node, if known.
+   */
+  link?: 'inbound' | 'outbound'
+}
+export interface NodeStatus {
+  isRunning: boolean
+  nid: NId
+  alias?: string
+  /**
+   * The peers the node has sessions with, or `undefined` if they couldn't be resolved.
+   */
+  peers?: NodePeer[]
+  seeding: { rid: RID; name?: string }[]
+}
+/**
+ * The patch states a user can transition a patch to directly. A patch becomes `merged` only
+ * as a side-effect of its revision getting merged into the project's default branch.
+ */
+export type SettablePatchStatus = Exclude<PatchStatus, 'merged'>
 
 export interface RadicleNodeConnection {
   validate(options: ValidationOptions): Promise<boolean>
+  getNodeStatus(): Promise<Result<NodeStatus>>
+  getLocalIdentity(): Promise<Result<LocalIdentity>>
   getAllProjects(): Promise<Result<Project[]>>
   getProject(id: string): Promise<Result<Project>>
   getCurrentProjectId(): Promise<Result<RID>>
   fetchAllPatches(rid: RID): Promise<[Result<Patch[]>]>
   fetchPatch(rid: RID, patchId: string): Promise<Result<Patch>>
+  commentOnPatch(
+    rid: RID,
+    patchId: string,
+    newComment: NewPatchComment,
+  ): Promise<Result<Comment['id'] | undefined>>
+  changePatchState(
+    rid: RID,
+    patchId: string,
+    status: SettablePatchStatus,
+  ): Promise<Result<Patch>>
+  reviewPatch(
+    rid: RID,
+    patchId: string,
+    newReview: NewPatchReview,
+  ): Promise<Result<Patch | undefined>>
+  fetchDiff(rid: RID, base: string, oid: string): Promise<Result<DiffResponse>>
+  fetchTree(rid: RID, commit: string, path: string): Promise<Result<Tree>>
+  fetchBlob(rid: RID, commit: string, path: string): Promise<Result<Blob>>
+  fetchAllIssues(rid: RID): Promise<Result<Issue[]>[]>
+  fetchIssue(rid: RID, issueId: string): Promise<Result<Issue>>
+  createIssue(rid: RID, newIssue: NewIssue): Promise<Result<Issue['id']>>
 }
@@ -1,5 +1,5 @@
-import type { AugmentedPatch } from '../types'
-import type { Patch } from './httpd'
+import type { AugmentedIssue, AugmentedPatch } from '../types'
+import type { Issue, Patch } from './httpd'
 
 // TODO: maninak rename as PatchDetailWebviewState to account for more webviews in the future?
 export interface PatchDetailInjectedState {
@@ -8,6 +8,19 @@ export interface PatchDetailInjectedState {
   state: {
     patch: AugmentedPatch & { isCheckedOut: boolean }
     localIdentity?: { id: `did:key:${string}`; alias?: string }
+    isLocalIdentityDelegate: boolean
     timeLocale: Parameters<Date['toLocaleDateString']>['0']
   }
 }
+
+export interface IssueDetailInjectedState {
+  kind: 'webview-issue-detail'
+  id: Issue['id']
+  state: {
+    issue: AugmentedIssue
+    localIdentity?: { id: `did:key:${string}`; alias?: string }
+    timeLocale: Parameters<Date['toLocaleDateString']>['0']
+  }
+}
+
+export type WebviewInjectedState = PatchDetailInjectedState | IssueDetailInjectedState
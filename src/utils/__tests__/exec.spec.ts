@@ -0,0 +1,140 @@
+import { spawn, spawnSync } from 'node:child_process'
+import { EventEmitter } from 'node:events'
+import { PassThrough } from 'node:stream'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { type ArgvCommand, exec, execAsync, git } from '..'
+
+vi.mock('vscode', () => ({
+  window: { createOutputChannel: () => ({ append: vi.fn(), appendLine: vi.fn() }) },
+  workspace: { workspaceFolders: undefined },
+  ProgressLocation: { Notification: 15 },
+}))
+vi.mock('node:child_process', () => ({ spawn: vi.fn(), spawnSync: vi.fn() }))
+
+const hostileArgs = [
+  'my alias',
+  'feat; rm -rf ~',
+  '$(touch /tmp/pwned)',
+  '`touch /tmp/pwned`',
+  `it's "quoted"`,
+  '-c core.pager=touch /tmp/pwned',
+  '--upload-pack=touch /tmp/pwned',
+  'path with spaces/and|pipes&ampersands > redirect',
+]
+
+function mockSpawnedProcess(stdout = 'done'): void {
+  vi.mocked(spawn).mockImplementation(() => {
+    const childProcess = Object.assign(new EventEmitter(), {
+      stdout: new PassThrough(),
+      stderr: new PassThrough(),
+    })
+    setImmediate(() => {
+      childProcess.stdout.end(stdout)
+      childProcess.stderr.end()
+      childProcess.emit('close', 0, null)
+    })
+
+    return childProcess as unknown as ReturnType<typeof spawn>
+  })
+}
+
+describe('exec()', () => {
+  beforeEach(() => {
+    vi.mocked(spawnSync).mockReset()
+    vi.mocked(spawnSync).mockReturnValue({
+      pid: 1,
+      output: [],
+      stdout: 'done\n',
+      stderr: '',
+      status: 0,
+      signal: null,
+    })
+  })
+
+  it.each(hostileArgs)('passes the argument %j to the spawned executable as-is', (arg) => {
+    const cmd: ArgvCommand = { file: '/opt/rad bin/rad', args: ['patch', 'show', arg] }
+
+    expect(exec(cmd)).toBe('done')
+    expect(spawnSync).toHaveBeenCalledOnce()
+    expect(spawnSync).toHaveBeenCalledWith(
+      '/opt/rad bin/rad',
+      ['patch', 'show', arg],
+      expect.objectContaining({ shell: false }),
+    )
+  })
+
+  it('passes the env of the command to the spawned process', () => {
+    const radHome = '/home/me/$(whoami)/.radicle; echo'
+
+    exec({ file: 'rad', args: ['self'], env: { RAD_HOME: radHome } })
+
+    const [file, args, options] = vi.mocked(spawnSync).mock.calls[0] ?? []
+    expect(file).toBe('rad')
+    expect(args).toEqual(['self'])
+    expect(options).toMatchObject({ shell: false, env: { RAD_HOME: radHome } })
+  })
+
+  it('lets the env passed via options override the one of the command', () => {
+    exec(
+      { file: 'rad', args: ['auth'], env: { RAD_HOME: '/a', RAD_PASSPHRASE: 'x' } },
+      { env: { RAD_PASSPHRASE: `p@ss "'; $(id)` } },
+    )
+
+    expect(vi.mocked(spawnSync).mock.calls[0]?.[2]).toMatchObject({
+      shell: false,
+      env: { RAD_HOME: '/a', RAD_PASSPHRASE: `p@ss "'; $(id)` },
+    })
+  })
+
+  it('runs only static string commands via the shell', () => {
+    exec('which rad')
+
+    expect(spawnSync).toHaveBeenCalledWith(
+      'which rad',
+      [],
+      expect.objectContaining({ shell: true }),
+    )
+  })
+})
+
+describe('execAsync()', () => {
+  beforeEach(() => {
+    vi.mocked(spawn).mockReset()
+    mockSpawnedProcess()
+  })
+
+  it.each(hostileArgs)(
+    'passes the argument %j to the spawned executable as-is',
+    async (arg) => {
+      const cmd = git('checkout', '--end-of-options', arg)
+
+      await expect(execAsync(cmd)).resolves.toBe('done')
+      expect(spawn).toHaveBeenCalledOnce()
+      expect(spawn).toHaveBeenCalledWith(
+        'git',
+        ['checkout', '--end-of-options', arg],
+        expect.objectContaining({ shell: false }),
+      )
+    },
+  )
+
+  it('passes the env of the command to the spawned process', async () => {
+    const radHome = '`id`/.radicle'
+
+    await execAsync({ file: 'rad', args: ['sync'], env: { RAD_HOME: radHome } })
+
+    expect(vi.mocked(spawn).mock.calls[0]?.[2]).toMatchObject({
+      shell: false,
+      env: { RAD_HOME: radHome },
+    })
+  })
+})
+
+describe('git()', () => {
+  it.each(hostileArgs)('keeps the argument %j as a single argv entry', (arg) => {
+    expect(git('push', 'rad', '--end-of-options', arg)).toEqual({
+      file: 'git',
+      args: ['push', 'rad', '--end-of-options', arg],
+    })
+  })
+})
@@ -5,7 +5,9 @@ import {
   type QuickInputButton,
   QuickInputButtons,
   ThemeIcon,
+  commands,
   window,
+  workspace,
 } from 'vscode'
 import type { ArrayMinLength, Prettify } from '../types'
 import { log } from './log'
@@ -208,3 +210,73 @@ export async function askUser<
 
   return answers
 }
+
+/**
+ * Opens a new editor tab with an untitled Markdown document, in which the user can author
+ * longer-form text (e.g. an issue's description) than an InputBox comfortably allows for,
+ * and waits until they either submit or discard it.
+ *
+ * Any HTML comments (`<!-- ... -->`) in the document are treated as instructions to the user
+ * and are stripped from the returned answer.
+ *
+ * @example
+ * ```ts
+ * const description = await askUserForMarkdown({
+ *   purpose: 'Issue description',
+ *   initialContent: '<!-- Describe the issue. -->\n',
+ * })
+ * if (description === undefined) { return }
+ * ```
+ *
+ * @returns The trimmed Markdown the user submitted, or `undefined` if they discarded it.
+ */
+export async function askUserForMarkdown(options: {
+  /**
+   * A short, human-readable description of what the document is for, shown to the user
+   * alongside the submit button.
+   */
+  purpose: string
+  initialContent?: string
+}): Promise<string | undefined> {
+  const doc = await workspace.openTextDocument({
+    language: 'markdown',
+    content: options.initialContent ?? '',
+  })
+  await window.showTextDocument(doc, { preview: false })
+
+  const disposables: Disposable[] = []
+  const submitButton = 'Submit'
+  const discardButton = 'Discard'
+  const userSelection = await Promise.race([
+    window.showInformationMessage(
+      `${options.purpose}: edit the opened Markdown document and then select "${submitButton}".`,
+      submitButton,
+      discardButton,
+    ),
+    new Promise<undefined>((resolve) => {
+      workspace.onDidCloseTextDocument(
+        (closedDoc) => {
+          closedDoc === doc && resolve(undefined)
+        },
+        undefined,
+        disposables,
+      )
+    }),
+  ])
+  disposables.forEach((disposable) => {
+    disposable.dispose()
+  })
+
+  const markdown = doc
+    .getText()
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .trim()
+
+  if (!doc.isClosed) {
+    // closes the untitled document without prompting the user to save it
+    await window.showTextDocument(doc)
+    await commands.executeCommand('workbench.action.revertAndCloseActiveEditor')
+  }
+
+  return userSelection === submitButton ? markdown : undefined
+}
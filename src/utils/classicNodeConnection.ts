@@ -1,13 +1,78 @@
+import { stripVTControlCharacters } from 'node:util'
 import { validateHttpdConnection } from 'src/ux'
-import { fetchFromHttpd, memoizedGetCurrentProjectId } from '../helpers'
-import type { Patch, Project } from '../types/httpd'
-import type { RID, RadicleNodeConnection, Result, ValidationOptions } from '../types/node'
+import { fetchFromHttpd, memoizedGetCurrentProjectId, rad, radCli } from '../helpers'
+import type {
+  Blob,
+  Comment,
+  DiffResponse,
+  Issue,
+  Patch,
+  PatchStatus,
+  Project,
+  Tree,
+} from '../types/httpd'
+import type {
+  LocalIdentity,
+  NewIssue,
+  NewPatchComment,
+  NewPatchReview,
+  NodePeer,
+  NodeStatus,
+  RID,
+  RadicleNodeConnection,
+  Result,
+  SettablePatchStatus,
+  ValidationOptions,
+} from '../types/node'
+import { assertUnreachable } from './assertUnreachable'
+import { execAsync } from './exec'
 
 export class ClassicNode implements RadicleNodeConnection {
   public async validate(options: ValidationOptions): Promise<boolean> {
     return await validateHttpdConnection(options)
   }
 
+  /**
+   * Resolves the status of the node serving httpd. The node's peer sessions aren't exposed
+   * by httpd and are thus listed via the rad CLI, being left unresolved if that fails.
+   */
+  public async getNodeStatus(): Promise<Result<NodeStatus>> {
+    const [
+      { data: node, error: nodeError },
+      { data: projects, error: projectsError },
+      sessionsOutput,
+    ] = await Promise.all([
+      fetchFromHttpd('/node'),
+      this.getAllProjects(),
+      execAsync(rad('node', 'sessions')),
+    ])
+    if (nodeError) {
+      return { error: nodeError }
+    } else if (projectsError) {
+      return { error: projectsError }
+    }
+
+    const isRunning = node.state === 'running'
+    let peers: NodePeer[] | undefined = []
+    if (isRunning) {
+      peers = sessionsOutput === undefined ? undefined : parseNodeSessions(sessionsOutput)
+    }
+
+    return {
+      data: {
+        isRunning,
+        nid: node.id,
+        alias: node.config?.alias,
+        peers,
+        seeding: projects.map((project) => ({ rid: project.id as RID, name: project.name })),
+      },
+    }
+  }
+
+  public async getLocalIdentity(): Promise<Result<LocalIdentity>> {
+    return await Promise.resolve(radCli.self())
+  }
+
   public async getProject(rid: RID): Promise<Result<Project>> {
     return await fetchFromHttpd(`/projects/${rid}`)
   }
@@ -16,6 +81,117 @@ export class ClassicNode implements RadicleNodeConnection {
     return await fetchFromHttpd(`/projects/${rid}/patches/${patchId}`)
   }
 
+  /**
+   * Comments on a patch's revision using the Radicle CLI, since httpd doesn't (yet) support
+   * writes without a web session. The CLI can't anchor a comment to a code location, so
+   * comments having one are rejected instead of getting posted on the revision as a whole.
+   *
+   * @returns The id of the new comment, or `undefined` if the CLI didn't report it.
+   */
+  public async commentOnPatch(
+    _rid: RID,
+    _patchId: string,
+    newComment: NewPatchComment,
+  ): Promise<Result<Comment['id'] | undefined>> {
+    if (newComment.location) {
+      return {
+        error: new Error('The Radicle CLI cannot anchor comments to a code location'),
+      }
+    }
+
+    // the CLI resolves the patch and repo from the revision id and the working directory
+    const output = await execAsync(
+      rad(
+        'patch',
+        'comment',
+        newComment.revisionId,
+        '--message',
+        newComment.body,
+        ...(newComment.replyTo ? ['--reply-to', newComment.replyTo] : []),
+      ),
+      { cwd: '$workspaceDir', shouldLog: true, timeout: 60_000 },
+    )
+
+    return output === undefined
+      ? { error: new Error('Failed commenting on patch using rad CLI') }
+      : { data: output.match(/\b[0-9a-f]{40}\b/)?.[0] }
+  }
+
+  public async changePatchState(
+    rid: RID,
+    patchId: string,
+    status: SettablePatchStatus,
+  ): Promise<Result<Patch>> {
+    const { data: patch, error } = await this.fetchPatch(rid, patchId)
+    if (error) {
+      return { error }
+    } else if (patch.state.status === 'merged') {
+      return { error: new Error('Cannot change the state of a merged patch') }
+    }
+
+    for (const subcommand of getStateChangeSubcommands(patch.state.status, status)) {
+      const output = await execAsync(rad('patch', ...subcommand, patchId, '--repo', rid), {
+        cwd: '$workspaceDir',
+        shouldLog: true,
+        timeout: 60_000,
+      })
+      if (output === undefined) {
+        return { error: new Error('Failed changing state of patch using rad CLI') }
+      }
+    }
+
+    // the state did change, so a failed refetch shouldn't make it look otherwise
+    const { data: updatedPatch } = await this.fetchPatch(rid, patchId)
+
+    return { data: updatedPatch ?? { ...patch, state: { status } } }
+  }
+
+  /**
+   * Reviews a patch's revision using the Radicle CLI, since httpd doesn't (yet) support
+   * writes without a web session, and then fetches the updated patch, resolving to
+   * `undefined` if the review got published but the latter failed.
+   */
+  public async reviewPatch(
+    rid: RID,
+    patchId: string,
+    newReview: NewPatchReview,
+  ): Promise<Result<Patch | undefined>> {
+    const output = await execAsync(
+      rad(
+        'patch',
+        'review',
+        patchId,
+        '--repo',
+        rid,
+        '--revision',
+        newReview.revisionId,
+        ...(newReview.verdict ? [`--${newReview.verdict}`] : []),
+        ...(newReview.summary ? ['--message', newReview.summary] : []),
+      ),
+      { cwd: '$workspaceDir', shouldLog: true, timeout: 60_000 },
+    )
+    if (output === undefined) {
+      return { error: new Error('Failed reviewing patch using rad CLI') }
+    }
+
+    // the review did get published, so a failed refetch shouldn't make it look otherwise
+    const { data: updatedPatch } = await this.fetchPatch(rid, patchId)
+
+    return { data: updatedPatch }
+  }
+
+  public async fetchDiff(rid: RID, base: string, oid: string): Promise<Result<DiffResponse>> {
+    return await fetchFromHttpd(`/projects/${rid}/diff/${base}/${oid}`)
+  }
+
+  public async fetchTree(rid: RID, commit: string, path: string): Promise<Result<Tree>> {
+    return await fetchFromHttpd(`/projects/${rid}/tree/${commit}/${path}`)
+  }
+
+  public async fetchBlob(rid: RID, commit: string, path: string): Promise<Result<Blob>> {
+    return await fetchFromHttpd(`/projects/${rid}/blob/${commit}/${path}`)
+  }
+
   public async fetchAllPatches(rid: RID): Promise<[Result<Patch[]>]> {
     // TODO: refactor to make only a single request when https://radicle.zulipchat.com/#narrow/stream/369873-support/topic/fetch.20all.20patches.20in.20one.20req is resolved
     const all = Promise.all([
@@ -30,6 +206,45 @@ export class ClassicNode implements RadicleNodeConnection {
     return await (all as Promise<[Result<Patch[]>]>)
   }
 
+  public async fetchIssue(rid: RID, issueId: string): Promise<Result<Issue>> {
+    return await fetchFromHttpd(`/projects/${rid}/issues/${issueId}`)
+  }
+
+  public async fetchAllIssues(rid: RID): Promise<Result<Issue[]>[]> {
+    return await Promise.all([
+      fetchFromHttpd(`/projects/${rid}/issues`, { query: { state: 'open', perPage: 500 } }),
+      fetchFromHttpd(`/projects/${rid}/issues`, { query: { state: 'closed', perPage: 500 } }),
+    ])
+  }
+
+  /**
+   * Creates a new issue using the Radicle CLI, since httpd doesn't (yet) support writes
+   * without a web session. The new issue is _not_ announced to the network.
+   */
+  public async createIssue(rid: RID, newIssue: NewIssue): Promise<Result<Issue['id']>> {
+    const output = await execAsync(
+      rad(
+        'issue',
+        'open',
+        '--repo',
+        rid,
+        '--no-announce',
+        '--title',
+        newIssue.title,
+        '--description',
+        newIssue.description,
+        ...newIssue.labels.flatMap((label) => ['--label', label]),
+        ...newIssue.assignees.flatMap((assignee) => ['--assign', assignee]),
+      ),
+      { cwd: '$workspaceDir', shouldLog: true },
+    )
+    const issueId = output?.match(/\b[0-9a-f]{40}\b/)?.[0]
+
+    return issueId
+      ? { data: issueId }
+      : { error: new Error('Failed creating issue using rad CLI') }
+  }
+
   public async getCurrentProjectId(): Promise<Result<RID>> {
     const memo = memoizedGetCurrentProjectId()
     if (!memo) {
@@ -43,3 +258,63 @@ export class ClassicNode implements RadicleNodeConnection {
     return await fetchFromHttpd('/projects', { query: { show: 'all' } })
   }
 }
+
+/**
+ * Parses the sessions table printed by `rad node sessions`, whose rows look like e.g.
+ * `│ z6MksFq…VBQ8jeU   seed.radicle.garden:8776   🡕   connected   3 minutes │`.
+ *
+ * The CLI prints Node IDs shortened and no aliases, so the former are kept as printed and the
+ * latter left unset. Rows of CLIs not printing the session's direction get no `link`.
+ */
+function parseNodeSessions(output: string): NodePeer[] {
+  return stripVTControlCharacters(output)
+    .split('\n')
+    .flatMap((line) => {
+      const match = line.match(
+        /^\W*(\S+)\s+(\S+)\s+(?:(\S+)\s+)?(initial|attempted|connected|disconnected)\b/,
+      )
+      if (!match) {
+        return []
+      }
+
+      const [, nid = '', addr = '', linkSymbol = '', state] = match
+      let link: NodePeer['link']
+      if (/[↘⬊🡖🡦]/u.test(linkSymbol)) {
+        link = 'inbound'
+      } else if (/[↗⬈🡕🡥]/u.test(linkSymbol)) {
+        link = 'outbound'
+      }
+
+      return [{ nid, addr, state: state as NodePeer['state'], link }]
+    })
+}
+
+/**
+ * Resolves the `rad patch` subcommands (and their flags) that transition a patch from one
+ * state to another, in the order they should be run.
+ */
+function getStateChangeSubcommands(
+  from: Exclude<PatchStatus, 'merged'>,
+  to: SettablePatchStatus,
+): string[][] {
+  if (from === to) {
+    return []
+  }
+
+  switch (to) {
+    case 'archived':
+      return [['archive']]
+    case 'open':
+      return from === 'archived' ? [['archive', '--undo']] : [['ready']]
+    case 'draft':
+      // unarchiving a patch reopens it
+      return from === 'archived'
+        ? [
+            ['archive', '--undo'],
+            ['ready', '--undo'],
+          ]
+        : [['ready', '--undo']]
+    default:
+      return assertUnreachable(to)
+  }
+}
@@ -1,5 +1,46 @@
-import { type SpawnSyncOptionsWithStringEncoding, spawnSync } from 'node:child_process'
-import { getWorkspaceFolderPaths, log } from '.'
+import { type SpawnSyncOptionsWithStringEncoding, spawn, spawnSync } from 'node:child_process'
+import { ProgressLocation, window } from 'vscode'
+import { appendToLog, getWorkspaceFolderPaths, log } from '.'
+
+/**
+ * A command executed directly, without a shell, passing each of its arguments to the
+ * executable as-is. Arguments containing spaces or shell metacharacters (e.g. `$`, `;`, `|`)
+ * thus can't break the command or inject others into it, which is why this form must be
+ * preferred whenever any part of the command isn't a static string.
+ *
+ * @see {@link git()} and {@link rad()} for constructing one
+ */
+export interface ArgvCommand {
+  /**
+   * The executable, either as a path to it or as its name to be looked up in `PATH`.
+   */
+  file: string
+  args: string[]
+  /**
+   * Env vars required by the executable, on top of the ones the extension runs with.
+   */
+  env?: Record<string, string>
+}
+
+/**
+ * The reason a command failed to execute successfully.
+ */
+export interface ExecError {
+  /**
+   * Whatever the command wrote to stderr (or stdout if the former is empty), or the error
+   * thrown while trying to spawn it.
+   */
+  message: string
+  /**
+   * The exit code of the command, if it got to run and exited on its own.
+   */
+  exitCode?: number
+  /**
+   * The Node.js error code, if the command failed to be spawned or got killed, e.g. `ENOENT`
+   * if the executable wasn't found or `ETIMEDOUT` if it ran past its timeout.
+   */
+  errorCode?: string
+}
 
 /**
  * Executes a shell command and returns a promise that resolves with the stdout of the
@@ -9,15 +50,16 @@ import { getWorkspaceFolderPaths, log } from '.'
  * ```ts
  * exec('echo "hello shell :)"')
  * //> hello shell:)
+ * exec(git('checkout', '--end-of-options', branchName))
  * ```
  *
- * @param cmd - The shell command to execute. Can be a static string or a function resolving
- * the command dynamically.
+ * @param cmd - The command to execute. Can be a static string run by the shell, a function
+ * resolving such a string dynamically, or an `ArgvCommand` run without a shell.
  * @param options - Optional configuration.
  * @returns The output of the shell command if successful, otherwise `undefined`.
  */
 export function exec(
-  cmd: string | (() => string),
+  cmd: string | (() => string) | ArgvCommand,
   options?: {
     /**
      * Specifies whether the output of the shell command should be logged in the Output panel
@@ -54,41 +96,48 @@ export function exec(
      * */
     cwd?: (string & {}) | '$workspaceDir' // eslint-disable-line @typescript-eslint/ban-types
     env?: SpawnSyncOptionsWithStringEncoding['env']
+    /**
+     * If set to `true`, whatever the command writes to stderr gets appended to the returned
+     * stdout. Handy for commands reporting useful info on stderr, e.g. `git push`.
+     *
+     * @default false
+     */
+    shouldIncludeStderr?: boolean
+    /**
+     * Called with the reason the command failed, if it did, for callers wishing to handle
+     * each kind of failure differently.
+     */
+    onError?: (error: ExecError) => void
   },
 ): string | undefined {
   const opts = options ?? {}
-  const resolvedCmd = typeof cmd === 'function' ? cmd() : cmd
+  const { file, args, shell, env, cmdForLog } = toSpawnParams(cmd)
+  let failure: Omit<ExecError, 'message'> = {}
 
   try {
-    let cwd: string | undefined
-    if (opts.cwd === '$workspaceDir') {
-      const firstWorkspaceDir = getWorkspaceFolderPaths()?.[0] // Hack: always use only 0th folder
-      if (!firstWorkspaceDir) {
-        throw new Error(
-          `Failed resolving path of workspace directory in order to exec "${resolvedCmd}" in it`,
-        )
-      }
-      cwd = firstWorkspaceDir
-    } else {
-      cwd = opts.cwd
-    }
-
-    const execResult = spawnSync(resolvedCmd, {
-      shell: true,
+    const cwd = resolveCwd(opts.cwd, cmdForLog)
+    const execResult = spawnSync(file, args, {
+      shell,
       cwd,
       timeout: opts.timeout ?? 30_000,
       encoding: 'utf-8',
-      env: { ...process.env, ...opts.env },
+      env: { ...process.env, ...env, ...opts.env },
     })
     if (execResult.error || execResult.status) {
+      failure = {
+        exitCode: execResult.status ?? undefined,
+        errorCode: (execResult.error as NodeJS.ErrnoException | undefined)?.code,
+      }
       // eslint-disable-next-line @typescript-eslint/no-throw-literal
       throw execResult.error ?? (execResult.stderr || execResult.stdout)
     }
 
-    const parsedResult =
-      opts.outputTrimming ?? true ? execResult.stdout.trim() : execResult.stdout
+    const output = opts.shouldIncludeStderr
+      ? `${execResult.stdout}${execResult.stderr}`
+      : execResult.stdout
+    const parsedResult = opts.outputTrimming ?? true ? output.trim() : output
     if (opts.shouldLog ?? false) {
-      log(parsedResult, 'info', resolvedCmd)
+      log(parsedResult, 'info', cmdForLog)
     }
 
     return parsedResult
@@ -98,15 +147,243 @@ export function exec(
         ? error
         : error instanceof Error
         ? error.message
-        : `Failed executing shell command: "${resolvedCmd}"`
+        : `Failed executing shell command: "${cmdForLog}"`
 
     if (opts.shouldLog ?? false) {
-      log(opts.outputTrimming ?? true ? parsedError.trim() : parsedError, 'error', resolvedCmd)
+      log(opts.outputTrimming ?? true ? parsedError.trim() : parsedError, 'error', cmdForLog)
     } else {
       // will show up only in the Debug console during development
       console.error(parsedError)
     }
+    opts.onError?.({ message: parsedError.trim(), ...failure })
 
     return undefined
   }
 }
+
+/**
+ * Asynchronous variant of `exec()`, which doesn't block the extension host while the shell
+ * command is running. Its output is streamed line-by-line as it gets produced, into the
+ * extension's log (if `shouldLog` is set) as well as the optional `onOutputLine` callback.
+ *
+ * @example
+ * ```ts
+ * const abortController = new AbortController()
+ * await execAsync('rad sync --fetch', {
+ *   cwd: '$workspaceDir',
+ *   onOutputLine: (line) => console.log(line),
+ *   signal: abortController.signal,
+ * })
+ * ```
+ *
+ * @param cmd - The shell command to execute. Can be a static string or a function resolving
+ * the command dynamically.
+ * @param options - Optional configuration, extending the one of `exec()`.
+ * @returns A promise that resolves to the output of the shell command if successful,
+ * otherwise `undefined`, including if it got cancelled via the `signal`.
+ */
+// eslint-disable-next-line require-await
+export async function execAsync(
+  cmd: string | (() => string) | ArgvCommand,
+  options?: Omit<NonNullable<Parameters<typeof exec>['1']>, 'onError'> & {
+    /**
+     * Called with each line the shell command writes to either stdout or stderr, as soon as
+     * it gets written.
+     */
+    onOutputLine?: (line: string) => void
+    /**
+     * Kills the shell command's process once aborted.
+     */
+    signal?: AbortSignal
+  },
+): Promise<string | undefined> {
+  const opts = options ?? {}
+  const { file, args, shell, env, cmdForLog } = toSpawnParams(cmd)
+  const shouldLog = opts.shouldLog ?? false
+
+  return new Promise((resolve) => {
+    let hasSettled = false
+    function settle(output: string | undefined, errorMessage?: string): void {
+      if (hasSettled) {
+        return
+      }
+      hasSettled = true
+
+      if (errorMessage !== undefined) {
+        shouldLog
+          ? log(errorMessage, opts.signal?.aborted ? 'warn' : 'error', cmdForLog)
+          : console.error(errorMessage) // will show up only in the Debug console during development
+      }
+      resolve(output)
+    }
+
+    let stdout = ''
+    function createLineStreamer(onChunk?: (chunk: string) => void): {
+      write: (chunk: string) => void
+      flush: () => void
+    } {
+      let partialLine = ''
+
+      return {
+        write: (chunk: string) => {
+          onChunk?.(chunk)
+          // `\r` is used by CLIs to redraw the current line e.g. of a spinner
+          const lines = `${partialLine}${chunk}`.split(/\r?\n|\r/)
+          partialLine = lines.pop() ?? ''
+          lines.forEach(emitLine)
+        },
+        flush: () => {
+          emitLine(partialLine)
+          partialLine = ''
+        },
+      }
+    }
+
+    function emitLine(line: string): void {
+      if (!line.trim()) {
+        return
+      }
+
+      shouldLog && appendToLog(line)
+      opts.onOutputLine?.(line)
+    }
+
+    try {
+      const cwd = resolveCwd(opts.cwd, cmdForLog)
+      shouldLog && log('', 'info', cmdForLog)
+
+      const childProcess = spawn(file, args, {
+        shell,
+        cwd,
+        timeout: opts.timeout ?? 30_000,
+        env: { ...process.env, ...env, ...opts.env },
+        signal: opts.signal,
+      })
+      const stdoutStreamer = createLineStreamer((chunk) => {
+        stdout += chunk
+      })
+      const stderrStreamer = createLineStreamer((chunk) => {
+        if (opts.shouldIncludeStderr) {
+          stdout += chunk
+        }
+      })
+      childProcess.stdout.setEncoding('utf-8').on('data', stdoutStreamer.write)
+      childProcess.stderr.setEncoding('utf-8').on('data', stderrStreamer.write)
+
+      childProcess.on('error', (error) => {
+        settle(
+          undefined,
+          opts.signal?.aborted
+            ? 'Cancelled'
+            : error.message || `Failed executing shell command`,
+        )
+      })
+      childProcess.on('close', (exitCode, signal) => {
+        stdoutStreamer.flush()
+        stderrStreamer.flush()
+
+        if (exitCode !== 0) {
+          settle(
+            undefined,
+            opts.signal?.aborted
+              ? 'Cancelled'
+              : signal
+              ? `Terminated with signal ${signal}`
+              : `Exited with code ${exitCode ?? '<unknown>'}`,
+          )
+
+          return
+        }
+
+        settle(opts.outputTrimming ?? true ? stdout.trim() : stdout)
+      })
+    } catch (error) {
+      settle(
+        undefined,
+        error instanceof Error
+          ? error.message
+          : `Failed executing shell command: "${cmdForLog}"`,
+      )
+    }
+  })
+}
+
+/**
+ * Runs a shell command via `execAsync()` while showing a notification with its progress,
+ * reporting each line of its output as it gets produced. The notification comes with a
+ * "Cancel" button which kills the command's process.
+ *
+ * @returns A promise that resolves to the output of the shell command if successful,
+ * otherwise `undefined`, along with whether the user cancelled it.
+ */
+export async function execWithProgress(
+  cmd: string | (() => string) | ArgvCommand,
+  options: Omit<NonNullable<Parameters<typeof execAsync>['1']>, 'signal'> & {
+    /**
+     * The title of the progress notification.
+     */
+    title: string
+  },
+): Promise<{ output: string | undefined; wasCancelled: boolean }> {
+  const { title, onOutputLine, ...execOptions } = options
+  const abortController = new AbortController()
+
+  const output = await window.withProgress(
+    { location: ProgressLocation.Notification, title, cancellable: true },
+    async (progress, cancellationToken) => {
+      cancellationToken.onCancellationRequested(() => {
+        abortController.abort()
+      })
+
+      return await execAsync(cmd, {
+        ...execOptions,
+        signal: abortController.signal,
+        onOutputLine: (line) => {
+          progress.report({ message: line })
+          onOutputLine?.(line)
+        },
+      })
+    },
+  )
+
+  return { output, wasCancelled: abortController.signal.aborted }
+}
+
+function resolveCwd(
+  cwd: NonNullable<Parameters<typeof exec>['1']>['cwd'],
+  resolvedCmd: string,
+): string | undefined {
+  if (cwd !== '$workspaceDir') {
+    return cwd
+  }
+
+  const firstWorkspaceDir = getWorkspaceFolderPaths()?.[0] // Hack: always use only 0th folder
+  if (!firstWorkspaceDir) {
+    throw new Error(
+      `Failed resolving path of workspace directory in order to exec "${resolvedCmd}" in it`,
+    )
+  }
+
+  return firstWorkspaceDir
+}
+
+function toSpawnParams(cmd: string | (() => string) | ArgvCommand): {
+  file: string
+  args: string[]
+  shell: boolean
+  env: Record<string, string> | undefined
+  cmdForLog: string
+} {
+  const resolvedCmd = typeof cmd === 'function' ? cmd() : cmd
+  if (typeof resolvedCmd === 'string') {
+    return { file: resolvedCmd, args: [], shell: true, env: undefined, cmdForLog: resolvedCmd }
+  }
+
+  const { file, args, env } = resolvedCmd
+  // quoted only for readability, since the command never gets parsed by a shell
+  const cmdForLog = [file, ...args]
+    .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`))
+    .join(' ')
+
+  return { file, args, shell: false, env, cmdForLog }
+}
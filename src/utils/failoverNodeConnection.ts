@@ -0,0 +1,252 @@
+import { getConfig } from 'src/helpers'
+import type { Blob, Comment, DiffResponse, Issue, Patch, Project, Tree } from '../types/httpd'
+import type {
+  LocalIdentity,
+  NewIssue,
+  NewPatchComment,
+  NewPatchReview,
+  NodeStatus,
+  RID,
+  RadicleNodeConnection,
+  Result,
+  SettablePatchStatus,
+  ValidationOptions,
+} from '../types/node'
+import { ClassicNode } from './classicNodeConnection'
+import { log } from './log'
+import { NAPINode } from './napiNodeConnection'
+
+export type NodeBackend = 'napi' | 'httpd'
+
+/**
+ * Methods changing state on the node. A write failing via the Node-API library may have
+ * still partially gone through, so it isn't retried on httpd lest it gets applied twice.
+ */
+const writeMethods = new Set<keyof RadicleNodeConnection>([
+  'commentOnPatch',
+  'changePatchState',
+  'reviewPatch',
+  'createIssue',
+])
+
+/**
+ * Connects to the Radicle node via its Node-API library if the user has opted into it via
+ * config and the library loads on this host, falling back to httpd (and the rad CLI)
+ * otherwise. Reads also fall back to httpd on a per-call basis whenever they fail via the
+ * library.
+ *
+ * The config is read on each call, so toggling it takes effect without a window reload.
+ */
+export class FailoverNode implements RadicleNodeConnection {
+  private readonly napiNode = new NAPINode()
+  private readonly classicNode = new ClassicNode()
+  private readonly servingBackends = new Map<keyof RadicleNodeConnection, NodeBackend>()
+
+  /**
+   * Resolves which backend served the latest call of the given method, if any.
+   */
+  public getServingBackend(method: keyof RadicleNodeConnection): NodeBackend | undefined {
+    return this.servingBackends.get(method)
+  }
+
+  public async validate(options: ValidationOptions): Promise<boolean> {
+    if (getConfig('radicle.advanced.useNodeApi') && (await this.napiNode.validate(options))) {
+      this.servingBackends.set('validate', 'napi')
+
+      return true
+    }
+
+    this.servingBackends.set('validate', 'httpd')
+
+    return await this.classicNode.validate(options)
+  }
+
+  public async getNodeStatus(): Promise<Result<NodeStatus>> {
+    return await this.callWithFailover(
+      'getNodeStatus',
+      async (node) => await node.getNodeStatus(),
+    )
+  }
+
+  public async getLocalIdentity(): Promise<Result<LocalIdentity>> {
+    return await this.callWithFailover(
+      'getLocalIdentity',
+      async (node) => await node.getLocalIdentity(),
+    )
+  }
+
+  public async getAllProjects(): Promise<Result<Project[]>> {
+    return await this.callWithFailover(
+      'getAllProjects',
+      async (node) => await node.getAllProjects(),
+    )
+  }
+
+  public async getProject(id: string): Promise<Result<Project>> {
+    return await this.callWithFailover('getProject', async (node) => await node.getProject(id))
+  }
+
+  public async getCurrentProjectId(): Promise<Result<RID>> {
+    return await this.callWithFailover(
+      'getCurrentProjectId',
+      async (node) => await node.getCurrentProjectId(),
+    )
+  }
+
+  public async fetchAllPatches(rid: RID): Promise<[Result<Patch[]>]> {
+    return await this.callWithFailover(
+      'fetchAllPatches',
+      async (node) => await node.fetchAllPatches(rid),
+    )
+  }
+
+  public async fetchPatch(rid: RID, patchId: string): Promise<Result<Patch>> {
+    return await this.callWithFailover(
+      'fetchPatch',
+      async (node) => await node.fetchPatch(rid, patchId),
+    )
+  }
+
+  public async commentOnPatch(
+    rid: RID,
+    patchId: string,
+    newComment: NewPatchComment,
+  ): Promise<Result<Comment['id'] | undefined>> {
+    return await this.callWithFailover(
+      'commentOnPatch',
+      async (node) => await node.commentOnPatch(rid, patchId, newComment),
+    )
+  }
+
+  public async changePatchState(
+    rid: RID,
+    patchId: string,
+    status: SettablePatchStatus,
+  ): Promise<Result<Patch>> {
+    return await this.callWithFailover(
+      'changePatchState',
+      async (node) => await node.changePatchState(rid, patchId, status),
+    )
+  }
+
+  public async reviewPatch(
+    rid: RID,
+    patchId: string,
+    newReview: NewPatchReview,
+  ): Promise<Result<Patch | undefined>> {
+    return await this.callWithFailover(
+      'reviewPatch',
+      async (node) => await node.reviewPatch(rid, patchId, newReview),
+    )
+  }
+
+  public async fetchDiff(rid: RID, base: string, oid: string): Promise<Result<DiffResponse>> {
+    return await this.callWithFailover(
+      'fetchDiff',
+      async (node) => await node.fetchDiff(rid, base, oid),
+    )
+  }
+
+  public async fetchTree(rid: RID, commit: string, path: string): Promise<Result<Tree>> {
+    return await this.callWithFailover(
+      'fetchTree',
+      async (node) => await node.fetchTree(rid, commit, path),
+    )
+  }
+
+  public async fetchBlob(rid: RID, commit: string, path: string): Promise<Result<Blob>> {
+    return await this.callWithFailover(
+      'fetchBlob',
+      async (node) => await node.fetchBlob(rid, commit, path),
+    )
+  }
+
+  public async fetchAllIssues(rid: RID): Promise<Result<Issue[]>[]> {
+    return await this.callWithFailover(
+      'fetchAllIssues',
+      async (node) => await node.fetchAllIssues(rid),
+    )
+  }
+
+  public async fetchIssue(rid: RID, issueId: string): Promise<Result<Issue>> {
+    return await this.callWithFailover(
+      'fetchIssue',
+      async (node) => await node.fetchIssue(rid, issueId),
+    )
+  }
+
+  public async createIssue(rid: RID, newIssue: NewIssue): Promise<Result<Issue['id']>> {
+    return await this.callWithFailover(
+      'createIssue',
+      async (node) => await node.createIssue(rid, newIssue),
+    )
+  }
+
+  /**
+   * Answers whether new comments can get anchored to a code location, which only the
+   * Node-API backend supports.
+   */
+  public async canAnchorComments(): Promise<boolean> {
+    return await this.isNapiUsable()
+  }
+
+  private async isNapiUsable(): Promise<boolean> {
+    return (
+      Boolean(getConfig('radicle.advanced.useNodeApi')) && (await this.napiNode.isAvailable())
+    )
+  }
+
+  /**
+   * Calls the given method on the Node-API backend if usable, otherwise on the httpd one,
+   * recording which backend served it. A read whose response via the former contains an
+   * error gets retried on the latter, with the former's response being kept if that fails
+   * too.
+   */
+  private async callWithFailover<Response extends Result<unknown> | Result<unknown>[]>(
+    method: keyof RadicleNodeConnection,
+    call: (node: RadicleNodeConnection) => Promise<Response>,
+  ): Promise<Response> {
+    if (!(await this.isNapiUsable())) {
+      const response = await call(this.classicNode)
+      this.servingBackends.set(method, 'httpd')
+
+      return response
+    }
+
+    const napiResponse = await call(this.napiNode)
+    const napiError = findError(napiResponse)
+    if (!napiError || writeMethods.has(method)) {
+      this.servingBackends.set(method, 'napi')
+
+      return napiResponse
+    }
+
+    log(
+      `Failed calling "${method}" via the Node-API library. Falling back to the Radicle \
+      HTTP API. ${napiError.message}`,
+      'warn',
+    )
+
+    const httpdResponse = await call(this.classicNode)
+    const httpdError = findError(httpdResponse)
+    if (httpdError) {
+      log(
+        `Failed calling "${method}" via the Radicle HTTP API too. ${httpdError.message}`,
+        'warn',
+      )
+      this.servingBackends.set(method, 'napi')
+
+      return napiResponse
+    }
+
+    this.servingBackends.set(method, 'httpd')
+
+    return httpdResponse
+  }
+}
+
+function findError(response: Result<unknown> | Result<unknown>[]): Error | undefined {
+  const results = Array.isArray(response) ? response : [response]
+
+  return results.find((result) => result.error)?.error
+}
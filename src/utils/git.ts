@@ -1,13 +1,30 @@
 import * as vscode from 'vscode'
 import { type GitExtension, type GitExtensionAPI, Status } from '../types'
-import { exec } from '.'
+import { type ArgvCommand, exec } from '.'
+
+/**
+ * Constructs a git invocation with the given arguments, each passed to git as-is without
+ * going through a shell.
+ *
+ * Arguments originating from user input or the network (e.g. branch names) should be
+ * preceded by `--end-of-options` where git supports it, so that they can't be mistaken for
+ * options either.
+ *
+ * @example
+ * ```ts
+ * exec(git('checkout', '--end-of-options', branchName), { cwd: '$workspaceDir' })
+ * ```
+ */
+export function git(...args: string[]): ArgvCommand {
+  return { file: 'git', args }
+}
 
 /**
  * Returns `true` if the opened workspace folder is an initialized git repo, otherwise `false`.
  */
 export function isGitRepo(): boolean {
   const isInitialized = Boolean(
-    exec('git rev-parse --is-inside-work-tree', { cwd: '$workspaceDir' }),
+    exec(git('rev-parse', '--is-inside-work-tree'), { cwd: '$workspaceDir' }),
   )
 
   return isInitialized
@@ -18,7 +35,7 @@ export function isGitRepo(): boolean {
  */
 // TODO: maninak memoize
 export function getRepoRoot(): string | undefined {
-  const gitRepoRootDir = exec('git rev-parse --show-toplevel', { cwd: '$workspaceDir' })
+  const gitRepoRootDir = exec(git('rev-parse', '--show-toplevel'), { cwd: '$workspaceDir' })
 
   return gitRepoRootDir
 }
@@ -32,7 +49,9 @@ export function getRepoRoot(): string | undefined {
  * ```
  */
 export function getCurrentGitBranch(): string | undefined {
-  const currentBranch = exec('git rev-parse --abbrev-ref HEAD', { cwd: '$workspaceDir' })
+  const currentBranch = exec(git('rev-parse', '--abbrev-ref', 'HEAD'), {
+    cwd: '$workspaceDir',
+  })
 
   return currentBranch
 }
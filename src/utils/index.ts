@@ -3,6 +3,7 @@ export * from './assertUnreachable'
 export * from './exec'
 export * from './getNonce'
 export * from './git'
+export * from './issue'
 export * from './log'
 export * from './memoizeWithDebouncedCacheClear'
 export * from './patch'
@@ -0,0 +1,24 @@
+import type { Comment, Issue } from '../types'
+
+/**
+ * Resolves the comment opening the issue (a.k.a. its description) and the comment
+ * most recently posted on it, which may be the same comment.
+ */
+export function getFirstAndLatestComments(issue: Issue): {
+  firstComment: Comment
+  latestComment: Comment
+} {
+  const commentsSortedOldestFirst = [...issue.discussion].sort(
+    (c1, c2) => c1.timestamp - c2.timestamp,
+  )
+  const firstComment = commentsSortedOldestFirst[0] as Exclude<
+    (typeof issue.discussion)[number],
+    undefined
+  >
+  const latestComment = commentsSortedOldestFirst.at(-1) as Exclude<
+    (typeof issue.discussion)[number],
+    undefined
+  >
+
+  return { firstComment, latestComment }
+}
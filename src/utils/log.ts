@@ -33,6 +33,14 @@ export function log(
   outputLog.appendLine(logEntry)
 }
 
+/**
+ * Appends a line to the extension's log as-is, without any timestamp or severity. Handy for
+ * streaming the output of a long-running process under the entry logged when it started.
+ */
+export function appendToLog(line: string): void {
+  outputLog.appendLine(line)
+}
+
 /**
  * Shows the extension's log in VS Code's Output panel.
  *
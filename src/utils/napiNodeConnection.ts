@@ -1,36 +1,207 @@
-import * as vscode from 'vscode'
-import { projects, ridAt } from 'radicle-napi'
-import { patch, patches, project } from 'napi/dist'
-import type { Patch, Project } from '../types/httpd'
-import type { RID, RadicleNodeConnection, Result, ValidationOptions } from '../types/node'
+import type * as Napi from 'napi/dist'
+import type { Blob, Comment, DiffResponse, Issue, Patch, Project, Tree } from '../types/httpd'
+import type {
+  LocalIdentity,
+  NewIssue,
+  NewPatchComment,
+  NewPatchReview,
+  NodeStatus,
+  RID,
+  RadicleNodeConnection,
+  Result,
+  SettablePatchStatus,
+  ValidationOptions,
+} from '../types/node'
+import { log } from './log'
+import { getWorkspaceFolderPaths } from './workspace'
+
+type NapiBinding = typeof Napi
+
+let napiBinding: Promise<NapiBinding> | undefined
+
+/**
+ * Loads the Node-API library on first use. A missing or incompatible native binary makes
+ * the returned promise reject, instead of preventing the extension from activating.
+ */
+async function loadNapiBinding(): Promise<NapiBinding> {
+  napiBinding ??= import('napi/dist').catch((error: unknown) => {
+    log(
+      `Failed loading the Node-API library: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      'warn',
+    )
+
+    throw error
+  })
+
+  return await napiBinding
+}
 
 export class NAPINode implements RadicleNodeConnection {
+  /**
+   * Answers whether the Node-API library could be loaded on this host.
+   */
+  public async isAvailable(): Promise<boolean> {
+    try {
+      await loadNapiBinding()
+
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Checks that the Node-API library loads and can access the local Radicle profile.
+   */
   public async validate(_options: ValidationOptions): Promise<boolean> {
-    return await Promise.resolve(true)
+    const { error } = await this.getLocalIdentity()
+    if (error) {
+      log(
+        `Failed connecting to the Radicle node via the Node-API library: ${error.message}`,
+        'warn',
+      )
+
+      return false
+    }
+
+    return true
+  }
+
+  public async getNodeStatus(): Promise<Result<NodeStatus>> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.nodeStatus())
+  }
+
+  public async getLocalIdentity(): Promise<Result<LocalIdentity>> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.identity())
   }
 
   public async getProject(rid: string): Promise<Result<Project>> {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-call
-    return await Promise.resolve({ data: project(rid) as Project })
+    return await this.call((napi) => napi.project(rid) as Project)
   }
 
   public async fetchPatch(rid: RID, patchId: string): Promise<Result<Patch>> {
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call
-    return await Promise.resolve({ data: patch(rid, patchId) })
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.patch(rid, patchId))
   }
 
   public async fetchAllPatches(rid: RID): Promise<[Result<Patch[]>]> {
-    return await Promise.resolve([{ data: patches(rid) }])
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return [await this.call((napi) => napi.patches(rid))]
+  }
+
+  public async commentOnPatch(
+    rid: RID,
+    patchId: string,
+    newComment: NewPatchComment,
+  ): Promise<Result<Comment['id']>> {
+    const { revisionId, body, replyTo, location } = newComment
+
+    return await this.call((napi) =>
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+      napi.commentOnPatchRevision(
+        rid,
+        patchId,
+        revisionId,
+        body,
+        replyTo,
+        location && {
+          path: location.path,
+          commit: location.commit,
+          lineStart: location.lines.start,
+          lineEnd: location.lines.end,
+        },
+      ),
+    )
+  }
+
+  public async changePatchState(
+    rid: RID,
+    patchId: string,
+    status: SettablePatchStatus,
+  ): Promise<Result<Patch>> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.setPatchState(rid, patchId, status))
+  }
+
+  public async reviewPatch(
+    rid: RID,
+    patchId: string,
+    newReview: NewPatchReview,
+  ): Promise<Result<Patch>> {
+    const { revisionId, verdict, summary } = newReview
+
+    return await this.call(
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+      (napi) => napi.reviewPatch(rid, patchId, revisionId, verdict, summary),
+    )
+  }
+
+  public async fetchDiff(rid: RID, base: string, oid: string): Promise<Result<DiffResponse>> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.diff(rid, base, oid))
+  }
+
+  public async fetchTree(rid: RID, commit: string, path: string): Promise<Result<Tree>> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.tree(rid, commit, path))
+  }
+
+  public async fetchBlob(rid: RID, commit: string, path: string): Promise<Result<Blob>> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.blob(rid, commit, path))
+  }
+
+  public async fetchIssue(rid: RID, issueId: string): Promise<Result<Issue>> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.issue(rid, issueId))
+  }
+
+  public async fetchAllIssues(rid: RID): Promise<Result<Issue[]>[]> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+    return [await this.call((napi) => napi.issues(rid))]
+  }
+
+  public async createIssue(rid: RID, newIssue: NewIssue): Promise<Result<Issue['id']>> {
+    const { title, description, labels, assignees } = newIssue
+
+    return await this.call(
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
+      (napi) => napi.createIssue(rid, title, description, labels, assignees),
+    )
   }
 
   public async getCurrentProjectId(): Promise<Result<RID>> {
-    return await Promise.resolve({
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      data: ridAt(vscode.workspace.workspaceFolders![0]!.uri.fsPath) as RID,
-    })
+    const workspacePath = getWorkspaceFolderPaths()?.[0]
+    if (!workspacePath) {
+      return { error: new Error('No folder is open in the workspace') }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.ridAt(workspacePath) as RID)
   }
 
   public async getAllProjects(): Promise<Result<Project[]>> {
-    return await Promise.resolve({ data: projects() as Project[] })
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call
+    return await this.call((napi) => napi.projects() as Project[])
+  }
+
+  /**
+   * Invokes the Node-API library, loading it first if needed, and wraps whatever it returns
+   * or throws into a `Result`. Errors thrown by the library already carry any hint on how to
+   * resolve them in their message.
+   */
+  private async call<Data>(fn: (napi: NapiBinding) => Data): Promise<Result<Data>> {
+    try {
+      const napi = await loadNapiBinding()
+
+      return { data: fn(napi) }
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error(String(error)) }
+    }
   }
 }
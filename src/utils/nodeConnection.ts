@@ -1,18 +1,9 @@
-import { getConfig } from 'src/helpers'
-import type { RadicleNodeConnection } from '../types/node'
-import { ClassicNode } from './classicNodeConnection'
-import { NAPINode as NAPINodeConnection } from './napiNodeConnection'
+import { FailoverNode } from './failoverNodeConnection'
 
-let nodeConnection: RadicleNodeConnection | undefined
+let nodeConnection: FailoverNode | undefined
 
-export function getNodeConnection(): RadicleNodeConnection {
-  if (nodeConnection) {
-    return nodeConnection
-  }
-
-  nodeConnection = getConfig('radicle.advanced.useNodeApi')
-    ? new NAPINodeConnection()
-    : new ClassicNode()
+export function getNodeConnection(): FailoverNode {
+  nodeConnection ??= new FailoverNode()
 
   return nodeConnection
 }
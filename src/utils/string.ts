@@ -94,6 +94,21 @@ export function capitalizeFirstLetter(str: string): string {
   return `${str.charAt(0).toUpperCase()}${str.slice(1)}`
 }
 
+/**
+ * Splits a comma-separated list (e.g. as typed by the user) into its trimmed, non-empty items.
+ *
+ * @example
+ * ```ts
+ * parseCommaSeparated(' bug, good-first-issue,,') // ['bug', 'good-first-issue']
+ * ```
+ */
+export function parseCommaSeparated(str: string): string[] {
+  return str
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
 /**
  * Truncates a Radicle Identity id's hash, replacing its middle chars with an ellipses (`…`).
  * @param {DId} did The string to potentialy truncate
@@ -1,5 +1,14 @@
 import type { Webview } from 'vscode'
-import type { AugmentedPatch, Patch, PatchDetailInjectedState } from '../types'
+import type {
+  AugmentedIssue,
+  AugmentedPatch,
+  Comment,
+  Issue,
+  Patch,
+  Revision,
+  WebviewInjectedState,
+} from '../types'
+import type { SettablePatchStatus } from '../types/node'
 import { getVscodeRef } from '../webviews/src/utils/getVscodeRef'
 
 interface Message<Command extends string, Payload extends object | undefined = undefined> {
@@ -8,8 +17,9 @@ interface Message<Command extends string, Payload extends object | undefined = u
 }
 
 type MessageToWebview =
-  | Message<'updateState', PatchDetailInjectedState>
+  | Message<'updateState', WebviewInjectedState>
   | Message<'resetCount'>
+  | Message<'commentSubmitted', { didSucceed: boolean }>
 
 type MessageToExtension =
   | Message<'showInfoNotification', { text: string }>
@@ -18,6 +28,20 @@ type MessageToExtension =
   | Message<'checkOutPatchBranch', { patch: Patch }>
   | Message<'revealInPatchesView', { patch: AugmentedPatch }>
   | Message<'checkOutDefaultBranch'>
+  | Message<'reviewPatch', { patch: Pick<Patch, 'id'> }>
+  | Message<'mergePatch', { patch: Pick<Patch, 'id'> }>
+  | Message<'changePatchState', { patch: Pick<Patch, 'id'>; status: SettablePatchStatus }>
+  | Message<
+      'commentOnPatch',
+      {
+        patchId: Patch['id']
+        revisionId: Revision['id']
+        body: Comment['body']
+        replyTo?: Comment['id']
+      }
+    >
+  | Message<'refreshIssueData', { issueId: Issue['id'] }>
+  | Message<'revealInIssuesView', { issue: AugmentedIssue }>
 
 /**
  * Sends a message, usually from the host window, to the provided webview.
@@ -8,6 +8,17 @@ interface CustomWhenClauseContextKeys {
   'radicle.isExtensionActivated': boolean
   'radicle.isRadCliInstalled': boolean
   'radicle.isRadInitialized': boolean
+  'radicle.isLocalIdentityDelegate': boolean
+  'radicle.isNodeRunning': boolean
+  'radicle.isRadCliVersionTooOld': boolean
+  'radicle.isRadCliVersionTooNew': boolean
+  'radicle.isHttpdVersionTooOld': boolean
+  'radicle.isHttpdVersionTooNew': boolean
+  'radicle.supportsSync': boolean
+  'radicle.supportsPatchCheckout': boolean
+  'radicle.supportsPatchAuthoring': boolean
+  'radicle.supportsPatchStateChanges': boolean
+  'radicle.supportsRepoBrowsing': boolean
 }
 
 /**
@@ -1,7 +1,7 @@
 import { window } from 'vscode'
-import { getRadCliRef } from '../helpers'
+import { rad } from '../helpers'
 import type { Patch } from '../types'
-import { exec, log, shortenHash, showLog } from '../utils'
+import { exec, execWithProgress, git, log, shortenHash, showLog } from '../utils'
 import { getNodeConnection } from '../utils/nodeConnection'
 import { notifyUserAboutFetchError } from '.'
 
@@ -28,10 +28,18 @@ export async function checkOutDefaultBranch(): Promise<boolean> {
   }
 
   const defaultBranch = project.defaultBranch
-  const didCheckoutDefaultBranch =
-    exec(`git checkout ${defaultBranch}`, { cwd: '$workspaceDir', shouldLog: true }) !==
-    undefined
-  if (!didCheckoutDefaultBranch) {
+  const { output, wasCancelled } = await execWithProgress(
+    git('checkout', '--end-of-options', defaultBranch),
+    {
+      title: `Checking out branch "${defaultBranch}"`,
+      cwd: '$workspaceDir',
+      shouldLog: true,
+    },
+  )
+  if (wasCancelled) {
+    return false
+  }
+  if (output === undefined) {
     notifyUserGitCheckoutFailed(`Failed checking out branch "${defaultBranch}"`)
 
     return false
@@ -43,16 +51,18 @@ export async function checkOutDefaultBranch(): Promise<boolean> {
 /**
  * Checks out the Git branch associated with the given Radicle `patch`.
  *
- * @returns `true` if successful, otherwise `false`
+ * @returns A promise that resolves to `true` if successful, otherwise `false`
  */
-export function checkOutPatch(patch: Pick<Patch, 'id'>): boolean {
-  const didCheckoutPatchBranch = Boolean(
-    exec(`${getRadCliRef()} patch checkout ${patch.id}`, {
-      cwd: '$workspaceDir',
-      shouldLog: true,
-    }),
-  )
-  if (!didCheckoutPatchBranch) {
+export async function checkOutPatch(patch: Pick<Patch, 'id'>): Promise<boolean> {
+  const { output, wasCancelled } = await execWithProgress(rad('patch', 'checkout', patch.id), {
+    title: `Checking out Patch "${shortenHash(patch.id)}"`,
+    cwd: '$workspaceDir',
+    shouldLog: true,
+  })
+  if (wasCancelled) {
+    return false
+  }
+  if (!output) {
     notifyUserGitCheckoutFailed(`Failed checking out Patch "${shortenHash(patch.id)}"`)
 
     return false
@@ -63,9 +73,9 @@ export function checkOutPatch(patch: Pick<Patch, 'id'>): boolean {
 
 function notifyUserGitCheckoutFailed(mainErrorMessage: string) {
   const hasUncommitedChanges =
-    exec('git update-index --refresh && git diff-index --quiet HEAD --', {
-      cwd: '$workspaceDir',
-    }) === undefined // https://stackoverflow.com/a/3879077/5015955
+    // https://stackoverflow.com/a/3879077/5015955
+    exec(git('update-index', '--refresh'), { cwd: '$workspaceDir' }) === undefined ||
+    exec(git('diff-index', '--quiet', 'HEAD', '--'), { cwd: '$workspaceDir' }) === undefined
 
   const button = 'Show output'
   const msg = `${mainErrorMessage}${
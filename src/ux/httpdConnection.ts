@@ -1,6 +1,6 @@
 import { window } from 'vscode'
 import { FetchError } from 'ofetch'
-import { fetchFromHttpd } from '../helpers'
+import { fetchFromHttpd, getConfig, setConfig, setDetectedHttpdVersion } from '../helpers'
 import { log, showLog } from '../utils'
 import { openSettingsFocusedAtConfig } from './settings'
 
@@ -18,10 +18,12 @@ export async function validateHttpdConnection(
 ): Promise<boolean> {
   const { data: root, response, error } = await fetchFromHttpd('/')
   if (!root) {
+    setDetectedHttpdVersion(undefined)
     !options.minimizeUserNotifications && notifyUserAboutFetchError(error)
 
     return false
   } else if (root.service !== 'radicle-httpd') {
+    setDetectedHttpdVersion(undefined)
     const errorMsg = `${unknownApiErrorMarker} The HTTP API at "${response.url}" doesn't seem \
       to be a known Radicle API. \
       Please ensure that the url configured in the extension's settings is pointing to \
@@ -32,6 +34,7 @@ export async function validateHttpdConnection(
     return false
   }
 
+  setDetectedHttpdVersion(root.version)
   const msg = `Connected with Radicle HTTP API v${root.version} at "${response.url}"`
   log(msg, 'info')
   !options.minimizeUserNotifications && window.showInformationMessage(msg)
@@ -51,14 +54,26 @@ export async function notifyUserAboutFetchError(error: FetchError): Promise<void
   const requestUrl = error?.request?.toString()
   const buttonOutput = 'Show Output'
   const buttonSettings = 'Review Setting'
-  let userSelection: typeof buttonOutput | typeof buttonSettings | undefined
+  const buttonSpawnHttpd = 'Let Extension Run It'
+  let userSelection:
+    | typeof buttonOutput
+    | typeof buttonSettings
+    | typeof buttonSpawnHttpd
+    | undefined
 
-  if (error?.message.includes('ECONNREFUSED')) {
+  if (error?.message.includes('ECONNREFUSED') && getConfig('radicle.advanced.spawnHttpd')) {
+    userSelection = await window.showErrorMessage(
+      `Failed establishing connection with Radicle HTTP API at "${requestUrl}". \
+      The \`radicle-httpd\` spawned by the extension isn't running (yet).`,
+      buttonOutput,
+    )
+  } else if (error?.message.includes('ECONNREFUSED')) {
     userSelection = await window.showErrorMessage(
       `Failed establishing connection with Radicle HTTP API at "${requestUrl}". \
       Please ensure that \`radicle-httpd\` is already running, that it is accessible from \
       your network and that the address to the API's root endpoint is correctly set \
-      in the extension's settings.`,
+      in the extension's settings, or let the extension run it for you.`,
+      buttonSpawnHttpd,
       buttonSettings,
       buttonOutput,
     )
@@ -83,7 +98,10 @@ export async function notifyUserAboutFetchError(error: FetchError): Promise<void
     )
   }
 
-  if (userSelection === 'Show Output') {
+  if (userSelection === buttonSpawnHttpd) {
+    // picked up by the config watcher, which spawns it
+    setConfig('radicle.advanced.spawnHttpd', true)
+  } else if (userSelection === 'Show Output') {
     showLog()
   } else if (userSelection === 'Review Setting') {
     openSettingsFocusedAtConfig('radicle.advanced.httpApiEndpoint')
@@ -0,0 +1,333 @@
+import Path from 'node:path'
+import {
+  EventEmitter,
+  MarkdownString,
+  type TextDocumentShowOptions,
+  ThemeIcon,
+  type TreeDataProvider,
+  type TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+} from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import {
+  debouncedClearMemoizedGetCurrentProjectIdCache,
+  getProjectStoragePath,
+  getRadicleIdentity,
+} from '../helpers'
+import type { DId } from '../types'
+import {
+  capitalizeFirstLetter,
+  exec,
+  getRepoRoot,
+  git,
+  log,
+  shortenHash,
+  truncateDid,
+} from '../utils'
+import { type ChangedFile, getChangedFiles } from '.'
+
+const dot = '·'
+
+/**
+ * A node of the Incoming/Outgoing view, rendering itself and resolving its own children.
+ */
+export interface IncomingOutgoingNode {
+  getTreeItem: () => TreeItem
+  getChildren?: () =>
+    | (string | IncomingOutgoingNode)[]
+    | Promise<(string | IncomingOutgoingNode)[]>
+}
+
+/**
+ * The heads of the branches of each peer's namespace in the project's storage, keyed by the
+ * peer's NID and then by branch name.
+ */
+type NamespacedHeads = Map<string, Map<string, string>>
+
+interface BranchDivergence {
+  branch: string
+  /**
+   * The head of the branch in the local namespace, or of the default branch if the local
+   * namespace lacks that branch.
+   */
+  localOid: string
+  /**
+   * The head of the branch in the delegate's namespace, or of the default branch if the
+   * delegate's namespace lacks that branch.
+   */
+  delegateOid: string
+  mergeBase: string
+  /**
+   * The count of commits reachable from the local head but not from the delegate's.
+   */
+  ahead: number
+  /**
+   * The count of commits reachable from the delegate's head but not from the local one.
+   */
+  behind: number
+}
+
+/**
+ * Event emitter dedicated to refreshing the Incoming/Outgoing view's tree data.
+ */
+const rerenderIncomingOutgoingViewEventEmitter = new EventEmitter<undefined>()
+
+export function rerenderIncomingOutgoingView() {
+  rerenderIncomingOutgoingViewEventEmitter.fire(undefined)
+}
+
+export const incomingOutgoingTreeDataProvider: TreeDataProvider<
+  string | IncomingOutgoingNode
+> = {
+  getTreeItem: (elem) => {
+    if (typeof elem === 'string') {
+      return { description: elem }
+    }
+
+    return elem.getTreeItem()
+  },
+  getChildren: async (elem) => {
+    if (typeof elem === 'string') {
+      return undefined
+    } else if (elem) {
+      return elem.getChildren?.()
+    }
+
+    debouncedClearMemoizedGetCurrentProjectIdCache()
+    const { data: rid } = await getNodeConnection().getCurrentProjectId()
+    if (!rid) {
+      // This trap should theoretically never be reached,
+      // because `incoming-outgoing-view` has `"when": "radicle.isRadInitialized"`.
+      return ['Unable to compare refs of non-Radicle-initialized workspace']
+    }
+
+    const { data: project, error } = await getNodeConnection().getProject(rid)
+    const storagePath = getProjectStoragePath(rid)
+    const localNid = getRadicleIdentity('NID')?.NID
+    if (!project || !storagePath || !localNid) {
+      error && log(`Failed fetching project "${rid}": ${error.message}`, 'error')
+
+      return ['Failed resolving the refs of the project in the local Radicle storage']
+    }
+
+    const namespacedHeads = getNamespacedHeads(storagePath)
+    const localHeads = namespacedHeads.get(localNid) ?? new Map<string, string>()
+    const delegateNodes = project.delegates
+      .filter((did) => toNid(did) !== localNid)
+      .map((did) =>
+        createDelegateNode(
+          did,
+          getBranchDivergences(
+            localHeads,
+            namespacedHeads.get(toNid(did)) ?? new Map<string, string>(),
+            project.defaultBranch,
+            storagePath,
+          ),
+        ),
+      )
+
+    return delegateNodes.length
+      ? delegateNodes
+      : ['There are no other delegates to compare against']
+  },
+  onDidChangeTreeData: rerenderIncomingOutgoingViewEventEmitter.event,
+} as const
+
+function createDelegateNode(did: DId, divergences: BranchDivergence[]): IncomingOutgoingNode {
+  const truncatedDid = truncateDid(did)
+
+  return {
+    getTreeItem: () => ({
+      id: did,
+      label: truncatedDid,
+      description: divergences.length
+        ? `${divergences.length} branch${divergences.length === 1 ? '' : 'es'} differ${
+            divergences.length === 1 ? 's' : ''
+          }`
+        : 'In sync',
+      tooltip: `Delegate ${did}`,
+      iconPath: new ThemeIcon('account'),
+      collapsibleState: divergences.length
+        ? TreeItemCollapsibleState.Expanded
+        : TreeItemCollapsibleState.None,
+    }),
+    getChildren: () => divergences.map((divergence) => createBranchNode(did, divergence)),
+  }
+}
+
+function createBranchNode(did: DId, divergence: BranchDivergence): IncomingOutgoingNode {
+  const { branch, localOid, delegateOid, mergeBase, ahead, behind } = divergence
+
+  return {
+    getTreeItem: () => ({
+      id: `${did} ${branch}`,
+      label: branch,
+      description: `↑${ahead} ↓${behind}`,
+      tooltip: new MarkdownString(
+        [
+          `Branch \`${branch}\``,
+          `- ${ahead} commit${ahead === 1 ? '' : 's'} ahead of the delegate (outgoing)`,
+          `- ${behind} commit${behind === 1 ? '' : 's'} behind the delegate (incoming)`,
+          `\nLocal head \`${shortenHash(localOid)}\` ${dot} Delegate's head \`${shortenHash(
+            delegateOid,
+          )}\``,
+        ].join('\n'),
+      ),
+      iconPath: new ThemeIcon('git-branch'),
+      collapsibleState: TreeItemCollapsibleState.Collapsed,
+    }),
+    getChildren: () =>
+      [
+        ahead
+          ? createDivergenceNode(`${did} ${branch} outgoing`, 'outgoing', ahead, {
+              old: mergeBase,
+              new: localOid,
+            })
+          : undefined,
+        behind
+          ? createDivergenceNode(`${did} ${branch} incoming`, 'incoming', behind, {
+              old: mergeBase,
+              new: delegateOid,
+            })
+          : undefined,
+      ].filter(Boolean),
+  }
+}
+
+function createDivergenceNode(
+  id: string,
+  direction: 'incoming' | 'outgoing',
+  commitCount: number,
+  range: { old: string; new: string },
+): IncomingOutgoingNode {
+  return {
+    getTreeItem: () => ({
+      id,
+      label: capitalizeFirstLetter(direction),
+      description: `${commitCount} commit${commitCount === 1 ? '' : 's'} ${dot} ${shortenHash(
+        range.old,
+      )}..${shortenHash(range.new)}`,
+      iconPath: new ThemeIcon(direction === 'incoming' ? 'arrow-down' : 'arrow-up'),
+      collapsibleState: TreeItemCollapsibleState.Collapsed,
+    }),
+    getChildren: async () => {
+      const repoRoot = getRepoRoot()
+      if (!repoRoot) {
+        return ['Failed to determine Git repository root']
+      }
+
+      try {
+        return (await getChangedFiles(range))
+          .sort((f1, f2) => f1.newPath.localeCompare(f2.newPath))
+          .map((file) => createFilechangeNode(`${id} ${file.newPath}`, file, range, repoRoot))
+      } catch (error) {
+        log(error instanceof Error ? error.message : String(error), 'error')
+
+        return ['Failed resolving the changed files']
+      }
+    },
+  }
+}
+
+function createFilechangeNode(
+  id: string,
+  file: ChangedFile,
+  range: { old: string; new: string },
+  repoRoot: string,
+): IncomingOutgoingNode {
+  const { state, oldPath, newPath, oldVersionUri, newVersionUri } = file
+  const basename = Path.basename(newPath)
+  const relativeDirname = Path.dirname(newPath)
+
+  return {
+    getTreeItem: () => ({
+      id,
+      label: basename,
+      description: relativeDirname === '.' ? '' : relativeDirname,
+      tooltip: `${
+        oldPath !== newPath ? `${oldPath} ➟ ` : ''
+      }${newPath} ${dot} ${capitalizeFirstLetter(state)}`,
+      resourceUri: Uri.file(Path.join(repoRoot, newPath)),
+      command: {
+        command: 'radicle.openDiff',
+        title: 'Open changes',
+        tooltip: `Show this file's changes between commits ${shortenHash(
+          range.old,
+        )} and ${shortenHash(range.new)}`,
+        arguments: [
+          oldVersionUri,
+          newVersionUri,
+          `${basename} (${shortenHash(range.old)} ⟷ ${shortenHash(range.new)})`,
+          { preview: true } satisfies TextDocumentShowOptions,
+        ],
+      },
+    }),
+  }
+}
+
+function getNamespacedHeads(storagePath: string): NamespacedHeads {
+  const forEachRefOutput =
+    exec(git('for-each-ref', '--format=%(refname) %(objectname)', 'refs/namespaces/'), {
+      cwd: storagePath,
+    }) ?? ''
+  const matchNamespacedHeadRegex = /^refs\/namespaces\/([^/]+)\/refs\/heads\/(.+) ([0-9a-f]+)$/
+
+  const namespacedHeads: NamespacedHeads = new Map()
+  forEachRefOutput.split('\n').forEach((line) => {
+    const [, nid, branch, oid] = line.match(matchNamespacedHeadRegex) ?? []
+    // patch heads are already covered by the Patches view
+    if (!nid || !branch || !oid || branch.startsWith('patches/')) {
+      return
+    }
+
+    const heads = namespacedHeads.get(nid) ?? new Map<string, string>()
+    heads.set(branch, oid)
+    namespacedHeads.set(nid, heads)
+  })
+
+  return namespacedHeads
+}
+
+/**
+ * Resolves how each branch of either namespace diverges between the two. A branch missing
+ * from one of the namespaces is compared against that namespace's default branch instead.
+ */
+function getBranchDivergences(
+  localHeads: Map<string, string>,
+  delegateHeads: Map<string, string>,
+  defaultBranch: string,
+  storagePath: string,
+): BranchDivergence[] {
+  const branches = [...new Set([...localHeads.keys(), ...delegateHeads.keys()])].sort()
+
+  return branches
+    .map((branch): BranchDivergence | undefined => {
+      const localOid = localHeads.get(branch) ?? localHeads.get(defaultBranch)
+      const delegateOid = delegateHeads.get(branch) ?? delegateHeads.get(defaultBranch)
+      if (!localOid || !delegateOid || localOid === delegateOid) {
+        return undefined
+      }
+
+      const [ahead, behind] = (
+        exec(git('rev-list', '--left-right', '--count', `${localOid}...${delegateOid}`), {
+          cwd: storagePath,
+        }) ?? ''
+      )
+        .split(/\s+/)
+        .map(Number)
+      const mergeBase = exec(git('merge-base', '--end-of-options', localOid, delegateOid), {
+        cwd: storagePath,
+      })
+      if (ahead === undefined || behind === undefined || !mergeBase) {
+        return undefined
+      }
+
+      return { branch, localOid, delegateOid, mergeBase, ahead, behind }
+    })
+    .filter(Boolean)
+}
+
+function toNid(did: DId): string {
+  return did.replace(/^did:key:/, '')
+}
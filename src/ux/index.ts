@@ -1,6 +1,12 @@
 export * from './checkOut'
 export * from './clipboard'
 export * from './httpdConnection'
+export * from './incomingOutgoingView'
+export * from './issue'
+export * from './issuesView'
+export * from './nodeLifecycle'
+export * from './nodeStatusView'
+export * from './patch'
 export * from './patchesView'
 export * from './radCliInstallation'
 export * from './radicleIdentityAuth'
@@ -0,0 +1,146 @@
+import { ProgressLocation, commands, window } from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { rad } from '../helpers'
+import { useIssueStore } from '../stores'
+import type { DId } from '../types'
+import {
+  askUser,
+  askUserForMarkdown,
+  execWithProgress,
+  log,
+  parseCommaSeparated,
+  shortenHash,
+  showLog,
+} from '../utils'
+import { launchAuthenticationFlow } from './radicleIdentityAuth'
+
+/**
+ * Guides the user through authoring a new Radicle issue for the project currently open in
+ * the workspace, creates it and announces it to the network.
+ */
+export async function createIssue(): Promise<void> {
+  const { data: rid } = await getNodeConnection().getCurrentProjectId()
+  if (!rid) {
+    log('Failed resolving RID', 'error')
+
+    return
+  }
+
+  const answers = await askUser([
+    {
+      key: 'title',
+      kind: 'text',
+      title: 'Create Radicle Issue',
+      prompt: 'Please enter the title of the new issue.',
+      placeHolder: 'Short and descriptive title',
+      ignoreFocusOut: true,
+      validateInput: (input) => (input ? undefined : 'The title cannot be empty.'),
+    },
+    {
+      key: 'labels',
+      kind: 'text',
+      title: 'Create Radicle Issue',
+      prompt: 'Optionally, enter a comma-separated list of labels for the new issue.',
+      placeHolder: 'e.g. bug, good-first-issue',
+      ignoreFocusOut: true,
+      validateInput: (input) => {
+        const hasInvalidLabel = parseCommaSeparated(input).some((label) => /\s/.test(label))
+
+        return hasInvalidLabel ? 'Labels cannot contain whitespace.' : undefined
+      },
+    },
+    {
+      key: 'assignees',
+      kind: 'text',
+      title: 'Create Radicle Issue',
+      prompt: 'Optionally, enter a comma-separated list of DIDs to assign the new issue to.',
+      placeHolder: 'e.g. did:key:z6MkrLMMsiPWUcNPHcRajuMi9mDfYckSoJyPwwnknocNYPm7',
+      ignoreFocusOut: true,
+      validateInput: (input) => {
+        const areAllValidDIds = parseCommaSeparated(input).every(isDId)
+
+        return areAllValidDIds
+          ? undefined
+          : 'Each assignee must be a DID starting with "did:key:".'
+      },
+    },
+  ])
+  if (!answers) {
+    return
+  }
+
+  const description = await askUserForMarkdown({
+    purpose: `Description of issue "${answers.title}"`,
+    initialContent: [
+      '',
+      '',
+      '<!-- Describe the issue using Markdown.',
+      'Everything inside HTML comments like this one will be ignored. -->',
+      '',
+    ].join('\n'),
+  })
+  if (description === undefined) {
+    return
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = 'Cannot create an issue without an authenticated Radicle identity.'
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return
+  }
+
+  const { data: issueId, error } = await window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: `Creating issue "${answers.title}"…`,
+    },
+    async () =>
+      await getNodeConnection().createIssue(rid, {
+        title: answers.title,
+        description,
+        labels: parseCommaSeparated(answers.labels),
+        assignees: parseCommaSeparated(answers.assignees).filter(isDId),
+      }),
+  )
+  if (error) {
+    const buttonOutput = 'Show Output'
+    const msg = `Failed creating issue "${answers.title}"`
+    log(`${msg}: ${error.message}`, 'error')
+    window.showErrorMessage(msg, buttonOutput).then((userSelection) => {
+      userSelection === buttonOutput && showLog()
+    })
+
+    return
+  }
+
+  const { output: announceOutput } = await execWithProgress(rad('sync', '--announce'), {
+    title: `Announcing issue "${answers.title}" to the network…`,
+    cwd: '$workspaceDir',
+    shouldLog: true,
+    timeout: 60_000,
+  })
+  announceOutput === undefined &&
+    window.showWarningMessage(
+      `Issue ${shortenHash(issueId)} was created locally but announcing it to the network \
+failed. Please try running "Radicle: Announce" again later.`,
+    )
+
+  const issueStore = useIssueStore()
+  await issueStore.refetchIssue(issueId)
+
+  const buttonView = 'View Issue'
+  const msg = `Created issue "${answers.title}" with id ${shortenHash(issueId)}`
+  log(msg, 'info')
+  window.showInformationMessage(msg, buttonView).then((userSelection) => {
+    const issue = issueStore.findIssueById(issueId)
+    userSelection === buttonView &&
+      issue &&
+      commands.executeCommand('radicle.viewIssueDetails', issue)
+  })
+}
+
+function isDId(input: string): input is DId {
+  return input.startsWith('did:key:')
+}
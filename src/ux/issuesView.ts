@@ -0,0 +1,224 @@
+import {
+  EventEmitter,
+  MarkdownString,
+  ThemeColor,
+  ThemeIcon,
+  type TreeDataProvider,
+  type TreeItem,
+  TreeItemCollapsibleState,
+} from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import { useIssueStore } from '../stores'
+import { debouncedClearMemoizedGetCurrentProjectIdCache } from '../helpers'
+import type { AugmentedIssue, Issue } from '../types'
+import {
+  assertUnreachable,
+  capitalizeFirstLetter,
+  getFirstAndLatestComments,
+  getIdentityAliasOrId,
+  getTimeAgo,
+  shortenHash,
+} from '../utils'
+
+const dot = '·'
+
+let timesIssueListFetchErroredConsecutively = 0
+
+/**
+ * Event emitter dedicated to refreshing the Issue view's tree data.
+ */
+const rerenderIssuesViewEventEmitter = new EventEmitter<
+  string | AugmentedIssue | (string | AugmentedIssue)[] | undefined
+>()
+
+export function rerenderSomeItemsInIssuesView(
+  issuesMatchingItems: AugmentedIssue | AugmentedIssue[],
+) {
+  rerenderIssuesViewEventEmitter.fire(issuesMatchingItems)
+}
+
+export function rerenderAllItemsInIssuesView() {
+  rerenderIssuesViewEventEmitter.fire(undefined)
+}
+
+export const issuesTreeDataProvider: TreeDataProvider<string | AugmentedIssue> = {
+  getTreeItem: (elem) => {
+    if (typeof elem === 'string') {
+      return { description: elem }
+    }
+
+    const issue = elem
+    const edgeComments = getFirstAndLatestComments(issue)
+
+    const treeItem: TreeItem = {
+      id: issue.id,
+      contextValue: `issue:${issue.state.status}`,
+      iconPath: getThemeIconForIssue(issue),
+      label: issue.title,
+      description: getIssueTreeItemDescription(issue, edgeComments),
+      tooltip: getIssueTreeItemTooltip(issue, edgeComments),
+      collapsibleState: TreeItemCollapsibleState.None,
+      command: {
+        command: 'radicle.viewIssueDetails',
+        title: 'View Issue Details',
+        arguments: [issue],
+      },
+    }
+
+    return treeItem
+  },
+  getChildren: async (elem) => {
+    if (elem) {
+      return undefined
+    }
+
+    debouncedClearMemoizedGetCurrentProjectIdCache()
+    const { data: rid } = await getNodeConnection().getCurrentProjectId()
+    if (!rid) {
+      // This trap should theoretically never be reached,
+      // because `issues-view` has `"when": "radicle.isRadInitialized"`.
+      return ['Unable to fetch Radicle Issues for non-Radicle-initialized workspace']
+    }
+
+    const issueStore = useIssueStore()
+    await issueStore.initStoreIfNeeded()
+    const issues = issueStore.issues
+
+    if (!issues) {
+      setTimeout(() => {
+        rerenderAllItemsInIssuesView()
+      }, 3_000 * ++timesIssueListFetchErroredConsecutively)
+
+      return ['Please ensure `radicle-httpd` is running and accessible!']
+    }
+    timesIssueListFetchErroredConsecutively = 0
+
+    if (!issues.length) {
+      return undefined
+    }
+
+    const issuesSortedByLatestCommentPerStatus = [
+      ...getIssuesOfStatusSortedByLatestCommentFirst(issues, 'open'),
+      ...getIssuesOfStatusSortedByLatestCommentFirst(issues, 'closed'),
+    ]
+
+    return issuesSortedByLatestCommentPerStatus
+  },
+  getParent: () => undefined,
+  onDidChangeTreeData: rerenderIssuesViewEventEmitter.event,
+} as const
+
+function getIssueTreeItemDescription(
+  issue: Issue,
+  { latestComment }: ReturnType<typeof getFirstAndLatestComments>,
+) {
+  const description = `${getTimeAgo(
+    latestComment.timestamp,
+    'mini',
+  )} ${dot} ${getIdentityAliasOrId(issue.author)} ${dot} ${shortenHash(issue.id)}`
+
+  return description
+}
+
+function getIssueTreeItemTooltip(
+  issue: Issue,
+  { firstComment, latestComment }: ReturnType<typeof getFirstAndLatestComments>,
+) {
+  const separator = '—'
+  const lineBreak = '\n\n'
+  const sectionDivider = `${lineBreak}-----${lineBreak}`
+
+  const status = issue.state.status === 'closed' ? `Closed as ${issue.state.reason}` : 'Open'
+  const hasReplies = issue.discussion.length >= 2
+
+  const tooltipTopSection = [
+    `${getHtmlIconForIssue(issue)} ${dat(capitalizeFirstLetter(status))} ${separator} ${dat(
+      issue.id,
+    )}`,
+  ].join(lineBreak)
+
+  const tooltipMiddleSection = [
+    `**${issue.title}**`,
+    `${firstComment.body}`,
+    `${issue.labels.reduce(
+      (joinedLabels, label) => `${joinedLabels}${joinedLabels ? ' ' : ''}\`${label}\``,
+      '',
+    )}`,
+  ].join(lineBreak)
+
+  const tooltipBottomSection = [
+    ...(issue.assignees.length
+      ? [
+          `Assigned to ${issue.assignees
+            .map((assignee) => dat(getIdentityAliasOrId(assignee)))
+            .join(', ')}`,
+        ]
+      : []),
+    ...(hasReplies
+      ? [
+          `Last commented on by ${dat(getIdentityAliasOrId(latestComment.author))} ${dat(
+            getTimeAgo(latestComment.timestamp),
+          )} with ${dat(String(issue.discussion.length - 1))} replies in total`,
+        ]
+      : []),
+    `Created by ${dat(getIdentityAliasOrId(issue.author))} ${dat(
+      getTimeAgo(firstComment.timestamp),
+    )}`,
+  ].join(lineBreak)
+
+  const tooltip = new MarkdownString(
+    [tooltipTopSection, tooltipMiddleSection, tooltipBottomSection].join(sectionDivider),
+    true,
+  )
+  tooltip.supportHtml = true
+
+  return tooltip
+}
+
+/**
+ * Gives special Markdown formatting to a string value, further indicating that
+ * it is data received from the API and not fixed tooltip copy.
+ */
+function dat(str: string): string {
+  const formatingMarker = '_'
+
+  return `${formatingMarker}${str}${formatingMarker}`
+}
+
+function getIssuesOfStatusSortedByLatestCommentFirst<I extends Issue>(
+  issues: I[],
+  issueStatus: I['state']['status'],
+): I[] {
+  const sortedIssues = issues
+    .filter((issue) => issue.state.status === issueStatus)
+    .sort(
+      (i1, i2) =>
+        getFirstAndLatestComments(i2).latestComment.timestamp -
+        getFirstAndLatestComments(i1).latestComment.timestamp,
+    )
+
+  return sortedIssues
+}
+
+// eslint-disable-next-line consistent-return
+function getThemeIconForIssue<I extends Issue>(issue: I): ThemeIcon {
+  switch (issue.state.status) {
+    case 'open':
+      return new ThemeIcon('issues', new ThemeColor('issue.open'))
+    case 'closed':
+      return new ThemeIcon('issue-closed', new ThemeColor('issue.closed'))
+    default:
+      assertUnreachable(issue.state)
+  }
+}
+
+function getHtmlIconForIssue<I extends Issue>(issue: I): string {
+  const icon = getThemeIconForIssue(issue)
+
+  return `<span style="color:${getCssColor(icon.color)};">$(${icon.id})</span>`
+}
+
+function getCssColor(themeColor: ThemeColor | undefined): string {
+  // @ts-expect-error id is set as private but there's no other API currently https://github.com/microsoft/vscode/issues/34411#issuecomment-329741042
+  return `var(--vscode-${(themeColor.id as string).replace('.', '-')})`
+}
@@ -0,0 +1,76 @@
+import { window } from 'vscode'
+import { rad, refreshNodeState } from '../helpers'
+import { execWithProgress, showLog } from '../utils'
+import { launchAuthenticationFlow, rerenderNodeStatusView } from '.'
+
+/**
+ * Starts the Radicle node in the background, authenticating the user's Radicle identity
+ * first if needed, since the node requires access to its key.
+ *
+ * @returns `true` if the node got started, otherwise `false`.
+ */
+export async function startNode(): Promise<boolean> {
+  const didAuth = await launchAuthenticationFlow()
+  if (!didAuth) {
+    return false
+  }
+
+  const didStart = await execNodeCmd('start', 'Starting Radicle node')
+  didStart && window.showInformationMessage('Radicle node started')
+
+  return didStart
+}
+
+/**
+ * Stops the Radicle node.
+ *
+ * @returns `true` if the node got stopped, otherwise `false`.
+ */
+export async function stopNode(): Promise<boolean> {
+  const didStop = await execNodeCmd('stop', 'Stopping Radicle node')
+  didStop && window.showInformationMessage('Radicle node stopped')
+
+  return didStop
+}
+
+/**
+ * Stops the Radicle node, if running, and starts it again.
+ *
+ * @returns `true` if the node got started again, otherwise `false`.
+ */
+export async function restartNode(): Promise<boolean> {
+  if (await refreshNodeState()) {
+    const didStop = await execNodeCmd('stop', 'Stopping Radicle node')
+    if (!didStop) {
+      return false
+    }
+  }
+
+  return await startNode()
+}
+
+async function execNodeCmd(action: 'start' | 'stop', title: string): Promise<boolean> {
+  const { output, wasCancelled } = await execWithProgress(rad('node', action), {
+    title,
+    timeout: 60_000,
+    shouldLog: true,
+  })
+
+  await refreshNodeState()
+  rerenderNodeStatusView()
+
+  if (wasCancelled) {
+    return false
+  } else if (output === undefined) {
+    const button = 'Show Output'
+    window
+      .showErrorMessage(`Failed to ${action} the Radicle node`, button)
+      .then((userSelection) => {
+        userSelection === button && showLog()
+      })
+
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,181 @@
+import {
+  EventEmitter,
+  MarkdownString,
+  ThemeColor,
+  ThemeIcon,
+  type TreeDataProvider,
+  type TreeItem,
+  TreeItemCollapsibleState,
+} from 'vscode'
+import type { NodeBackend } from 'src/utils/failoverNodeConnection'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import type { NodePeer, NodeStatus } from '../types/node'
+import { capitalizeFirstLetter, log, truncateMiddle } from '../utils'
+
+const dot = '·'
+
+/**
+ * A node of the Node view, rendering itself and resolving its own children.
+ */
+export interface NodeStatusNode {
+  getTreeItem: () => TreeItem
+  getChildren?: () => (string | NodeStatusNode)[]
+}
+
+/**
+ * Event emitter dedicated to refreshing the Node view's tree data.
+ */
+const rerenderNodeStatusViewEventEmitter = new EventEmitter<undefined>()
+
+export function rerenderNodeStatusView() {
+  rerenderNodeStatusViewEventEmitter.fire(undefined)
+}
+
+export const nodeStatusTreeDataProvider: TreeDataProvider<string | NodeStatusNode> = {
+  getTreeItem: (elem) => {
+    if (typeof elem === 'string') {
+      return { description: elem }
+    }
+
+    return elem.getTreeItem()
+  },
+  getChildren: async (elem) => {
+    if (typeof elem === 'string') {
+      return undefined
+    } else if (elem) {
+      return elem.getChildren?.()
+    }
+
+    const { data: status, error } = await getNodeConnection().getNodeStatus()
+    if (error) {
+      log(`Failed resolving the status of the Radicle node: ${error.message}`, 'error')
+
+      return ['Failed resolving the status of the Radicle node']
+    }
+
+    return [
+      createRunningStateNode(status, getNodeConnection().getServingBackend('getNodeStatus')),
+      createIdentityNode(status),
+      createPeersNode(status.peers),
+      createSeedingNode(status.seeding),
+    ]
+  },
+  onDidChangeTreeData: rerenderNodeStatusViewEventEmitter.event,
+} as const
+
+function createRunningStateNode(
+  status: NodeStatus,
+  servingBackend: NodeBackend | undefined,
+): NodeStatusNode {
+  return {
+    getTreeItem: () => ({
+      id: 'running-state',
+      label: status.isRunning ? 'Running' : 'Stopped',
+      tooltip:
+        servingBackend &&
+        `Status resolved via ${
+          servingBackend === 'napi' ? 'the Node-API library' : 'the Radicle HTTP API'
+        }`,
+      iconPath: status.isRunning
+        ? new ThemeIcon('pass-filled', new ThemeColor('testing.iconPassed'))
+        : new ThemeIcon('circle-slash', new ThemeColor('testing.iconFailed')),
+    }),
+  }
+}
+
+function createIdentityNode(status: NodeStatus): NodeStatusNode {
+  return {
+    getTreeItem: () => ({
+      id: 'identity',
+      label: status.alias ?? truncateMiddle(status.nid),
+      description: status.alias ? truncateMiddle(status.nid) : undefined,
+      tooltip: new MarkdownString(
+        `Node ID \`${status.nid}\`${status.alias ? `\n\nAlias \`${status.alias}\`` : ''}`,
+      ),
+      iconPath: new ThemeIcon('account'),
+    }),
+  }
+}
+
+function createPeersNode(peers: NodePeer[] | undefined): NodeStatusNode {
+  const connectedCount = peers?.filter((peer) => peer.state === 'connected').length
+
+  return {
+    getTreeItem: () => ({
+      id: 'peers',
+      label: 'Peers',
+      description: peers ? `${connectedCount} connected` : undefined,
+      iconPath: new ThemeIcon('radio-tower'),
+      collapsibleState: peers?.length
+        ? TreeItemCollapsibleState.Expanded
+        : TreeItemCollapsibleState.Collapsed,
+    }),
+    getChildren: () => {
+      if (!peers) {
+        return ['Failed resolving peer sessions']
+      } else if (!peers.length) {
+        return ['No peer sessions']
+      }
+
+      return [...peers]
+        .sort(
+          (p1, p2) =>
+            Number(p2.state === 'connected') - Number(p1.state === 'connected') ||
+            (p1.alias ?? p1.nid).localeCompare(p2.alias ?? p2.nid),
+        )
+        .map(createPeerNode)
+    },
+  }
+}
+
+function createPeerNode(peer: NodePeer): NodeStatusNode {
+  return {
+    getTreeItem: () => ({
+      id: `peer ${peer.nid}`,
+      label: peer.alias ?? truncateMiddle(peer.nid),
+      description: `${peer.addr} ${dot} ${capitalizeFirstLetter(peer.state)}`,
+      tooltip: new MarkdownString(
+        [
+          `Node ID \`${peer.nid}\``,
+          `- Address \`${peer.addr}\``,
+          `- ${capitalizeFirstLetter(peer.state)}${
+            peer.link ? ` ${dot} ${capitalizeFirstLetter(peer.link)}` : ''
+          }`,
+        ].join('\n'),
+      ),
+      iconPath: new ThemeIcon(peer.state === 'connected' ? 'plug' : 'debug-disconnect'),
+    }),
+  }
+}
+
+function createSeedingNode(seeding: NodeStatus['seeding']): NodeStatusNode {
+  return {
+    getTreeItem: () => ({
+      id: 'seeding',
+      label: 'Seeding',
+      description: `${seeding.length} repo${seeding.length === 1 ? '' : 's'}`,
+      iconPath: new ThemeIcon('repo'),
+      collapsibleState: TreeItemCollapsibleState.Collapsed,
+    }),
+    getChildren: () => {
+      if (!seeding.length) {
+        return ['Not seeding any repos']
+      }
+
+      return [...seeding]
+        .sort((r1, r2) => (r1.name ?? r1.rid).localeCompare(r2.name ?? r2.rid))
+        .map(createSeededRepoNode)
+    },
+  }
+}
+
+function createSeededRepoNode(repo: NodeStatus['seeding'][number]): NodeStatusNode {
+  return {
+    getTreeItem: () => ({
+      id: `seeding ${repo.rid}`,
+      label: repo.name ?? repo.rid,
+      description: repo.name ? repo.rid : undefined,
+      iconPath: new ThemeIcon('repo'),
+    }),
+  }
+}
@@ -0,0 +1,904 @@
+import { ProgressLocation, type QuickPickItem, window, workspace } from 'vscode'
+import { getNodeConnection } from 'src/utils/nodeConnection'
+import {
+  rad,
+  refetchPatchAndUpdateWebview,
+  revealPatch,
+  updateWebviewIfShowing,
+} from '../helpers'
+import { useGitStore, usePatchStore, useProjectStore } from '../stores'
+import type { AugmentedPatch, Comment, Patch, PatchStatus, Revision } from '../types'
+import type { SettablePatchStatus } from '../types/node'
+import {
+  askUser,
+  askUserForMarkdown,
+  exec,
+  execAsync,
+  execWithProgress,
+  getCurrentGitBranch,
+  getFirstAndLatestRevisions,
+  getIdentityAliasOrId,
+  getTimeAgo,
+  git,
+  log,
+  parseCommaSeparated,
+  shortenHash,
+  showLog,
+} from '../utils'
+import { notifyUserAboutFetchError } from './httpdConnection'
+import { checkOutDefaultBranch } from './checkOut'
+import { setComparedRevisions } from './patchesView'
+import { launchAuthenticationFlow } from './radicleIdentityAuth'
+
+/**
+ * Guides the user through opening a new Radicle patch proposing the commits of the currently
+ * checked-out branch that aren't yet on the project's default branch. The patch's title and
+ * description get prefilled from those commits' messages, for the user to edit.
+ *
+ * @returns A promise that resolves to `true` if a patch got opened, otherwise `false`
+ */
+export async function createPatch(): Promise<boolean> {
+  const { data: rid } = await getNodeConnection().getCurrentProjectId()
+  if (!rid) {
+    log('Failed resolving RID', 'error')
+
+    return false
+  }
+
+  const { data: project, error } = await getNodeConnection().getProject(rid)
+  if (error) {
+    notifyUserAboutFetchError(error)
+
+    return false
+  }
+
+  const { defaultBranch } = project
+  const currentBranch = getCurrentGitBranch()
+  if (!currentBranch || currentBranch === 'HEAD' || currentBranch === defaultBranch) {
+    const msg = `Please check out a branch other than "${defaultBranch}" with the commits you want to propose and try again.`
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const commits = getCommitsAheadOf(defaultBranch)
+  if (!commits?.length) {
+    const msg = `Branch "${currentBranch}" has no commits that aren't already on "${defaultBranch}".`
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const [firstCommit] = commits as [(typeof commits)[number]]
+  const prefilledDescription =
+    commits.length === 1
+      ? firstCommit.body
+      : commits.map((commit) => `- ${commit.subject}`).join('\n')
+  const message = await askUserForMarkdown({
+    purpose: `New patch from branch "${currentBranch}"`,
+    initialContent: [
+      firstCommit.subject,
+      '',
+      prefilledDescription,
+      '',
+      '<!-- The first line is the title of the patch and the rest its description, in',
+      'Markdown. Everything inside HTML comments like this one will be ignored. -->',
+      '',
+    ].join('\n'),
+  })
+  if (message === undefined) {
+    return false
+  }
+
+  const [titleLine = '', ...descriptionLines] = message.split('\n')
+  const title = titleLine.replace(/^#+\s*/, '').trim()
+  const description = descriptionLines.join('\n').trim()
+  if (!title) {
+    const msg = 'Cannot open a patch without a title.'
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const statusOptions = [
+    {
+      label: '$(git-pull-request) Open',
+      detail: 'Open the patch, ready for review',
+      isDraft: false,
+    },
+    {
+      label: '$(git-pull-request-draft) Draft',
+      detail: "Open the patch as a draft that isn't ready for review yet",
+      isDraft: true,
+    },
+  ] as const satisfies readonly (QuickPickItem & { isDraft: boolean })[]
+  const statusSelection = await window.showQuickPick(statusOptions, {
+    title: `Open Patch "${title}"`,
+    placeHolder: 'Choose whether the patch is ready for review',
+    ignoreFocusOut: true,
+  })
+  if (!statusSelection) {
+    return false
+  }
+
+  const answers = await askUser([
+    {
+      key: 'labels',
+      kind: 'text',
+      title: `Open Patch "${title}"`,
+      prompt: 'Optionally, enter a comma-separated list of labels for the new patch.',
+      placeHolder: 'e.g. bug, needs-docs',
+      ignoreFocusOut: true,
+      validateInput: (input) => {
+        const hasInvalidLabel = parseCommaSeparated(input).some((label) => /\s/.test(label))
+
+        return hasInvalidLabel ? 'Labels cannot contain whitespace.' : undefined
+      },
+    },
+  ])
+  if (!answers) {
+    return false
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = 'Cannot open a patch without an authenticated Radicle identity.'
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return false
+  }
+
+  const abortController = new AbortController()
+  const patchId = await window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: `Opening patch "${title}"…`,
+      cancellable: true,
+    },
+    async (progress, cancellationToken) => {
+      cancellationToken.onCancellationRequested(() => {
+        abortController.abort()
+      })
+      const execOptions = {
+        cwd: '$workspaceDir',
+        shouldLog: true,
+        timeout: 60_000,
+        signal: abortController.signal,
+      } as const
+
+      progress.report({ message: 'pushing…' })
+      const pushOutput = await execAsync(
+        git(
+          'push',
+          'rad',
+          'HEAD:refs/patches',
+          '-o',
+          `patch.message=${title}`,
+          ...(statusSelection.isDraft ? ['-o', 'patch.draft'] : []),
+        ),
+        // the remote helper reports the new patch's id on stderr
+        { ...execOptions, shouldIncludeStderr: true },
+      )
+      const newPatchId = pushOutput?.match(/\b[0-9a-f]{40}\b/)?.[0]
+      if (!newPatchId) {
+        return undefined
+      }
+
+      // push options can't contain newlines, so the description is set in a separate step
+      if (description) {
+        progress.report({ message: 'setting description…' })
+        const editOutput = await execAsync(
+          rad('patch', 'edit', newPatchId, '--message', `${title}\n\n${description}`),
+          execOptions,
+        )
+        editOutput === undefined &&
+          window.showWarningMessage(
+            `Failed setting the description of patch ${shortenHash(newPatchId)}.`,
+          )
+      }
+
+      const labels = parseCommaSeparated(answers.labels)
+      if (labels.length) {
+        progress.report({ message: 'adding labels…' })
+        const labelFlags = labels.flatMap((label) => ['--add', label])
+        const labelOutput = await execAsync(
+          rad('patch', 'label', newPatchId, ...labelFlags),
+          execOptions,
+        )
+        labelOutput === undefined &&
+          window.showWarningMessage(
+            `Failed adding labels to patch ${shortenHash(newPatchId)}.`,
+          )
+      }
+
+      return newPatchId
+    },
+  )
+  if (!patchId && abortController.signal.aborted) {
+    return false
+  } else if (!patchId) {
+    const button = 'Show Output'
+    const msg = `Failed opening patch "${title}"`
+    log(msg, 'error')
+    window.showErrorMessage(msg, button).then((userSelection) => {
+      userSelection === button && showLog()
+    })
+
+    return false
+  }
+
+  const patchStore = usePatchStore()
+  await patchStore.refetchPatch(patchId)
+  const newPatch = patchStore.findPatchById(patchId)
+  newPatch && revealPatch(newPatch)
+
+  const msg = `Opened patch "${title}" with id ${shortenHash(patchId)}`
+  log(msg, 'info')
+  window.showInformationMessage(msg)
+
+  return true
+}
+
+/**
+ * Pushes the commits of the currently checked-out patch branch as a new revision of that
+ * patch, after asking the user for the revision's description, and then shows the range-diff
+ * between the previous and the new revision.
+ *
+ * @returns A promise that resolves to `true` if a new revision got pushed, otherwise `false`
+ */
+export async function updatePatch(): Promise<boolean> {
+  const patchStore = usePatchStore()
+  await patchStore.initStoreIfNeeded()
+  useGitStore().refreshCurentBranch()
+  const patch = patchStore.checkedOutPatch
+  if (!patch) {
+    const msg = 'Please check out the branch of the patch you want to update and try again.'
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const prevRevision = getFirstAndLatestRevisions(patch).latestRevision
+  const head = exec(git('rev-parse', 'HEAD'), { cwd: '$workspaceDir' })
+  if (!head || head === prevRevision.oid) {
+    const msg = `There are no local commits to push as a new revision of patch "${patch.title}".`
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const answers = await askUser([
+    {
+      key: 'description',
+      kind: 'text',
+      title: `Update Patch "${patch.title}"`,
+      prompt: 'Optionally, describe what changed in this revision.',
+      placeHolder: 'e.g. Address review comments',
+      ignoreFocusOut: true,
+    },
+  ])
+  if (!answers) {
+    return false
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = 'Cannot update a patch without an authenticated Radicle identity.'
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return false
+  }
+
+  // a rebased or amended branch doesn't descend from the previous revision
+  const isFastForward =
+    exec(git('merge-base', '--is-ancestor', '--end-of-options', prevRevision.oid, 'HEAD'), {
+      cwd: '$workspaceDir',
+    }) !== undefined
+  const { output: pushOutput, wasCancelled } = await execWithProgress(
+    git(
+      'push',
+      ...(isFastForward ? [] : ['--force']),
+      'rad',
+      `HEAD:refs/heads/patches/${patch.id}`,
+      ...(answers.description ? ['-o', `patch.message=${answers.description}`] : []),
+    ),
+    {
+      title: `Pushing new revision of patch "${patch.title}"…`,
+      cwd: '$workspaceDir',
+      shouldLog: true,
+      timeout: 60_000,
+      // git reports the outcome of the push on stderr
+      shouldIncludeStderr: true,
+    },
+  )
+  if (wasCancelled) {
+    return false
+  } else if (pushOutput === undefined) {
+    const button = 'Show Output'
+    const msg = `Failed pushing new revision of patch "${patch.title}"`
+    log(msg, 'error')
+    window.showErrorMessage(msg, button).then((userSelection) => {
+      userSelection === button && showLog()
+    })
+
+    return false
+  }
+
+  await refetchPatchAndUpdateWebview(patch.id)
+  const newRevision = getFirstAndLatestRevisions(patch).latestRevision
+  if (newRevision.id === prevRevision.id) {
+    const msg = `Pushed to patch "${patch.title}" but its new revision isn't reported yet. Please refresh it again later.`
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const msg = `Pushed revision ${shortenHash(newRevision.id)} of patch "${patch.title}"`
+  log(msg, 'info')
+  window.showInformationMessage(msg)
+
+  const rangeDiff = exec(
+    git(
+      'range-diff',
+      '--no-color',
+      '--end-of-options',
+      `${prevRevision.base}..${prevRevision.oid}`,
+      `${newRevision.base}..${newRevision.oid}`,
+    ),
+    { cwd: '$workspaceDir', shouldLog: true },
+  )
+  if (rangeDiff) {
+    const doc = await workspace.openTextDocument({ language: 'diff', content: rangeDiff })
+    await window.showTextDocument(doc, { preview: true })
+  }
+
+  return true
+}
+
+/**
+ * Posts a new comment on the specified revision of a Radicle patch, optionally as a reply to
+ * another comment of that same revision.
+ *
+ * @returns A promise that resolves to `true` if successful, otherwise `false`
+ */
+export async function commentOnPatchRevision({
+  patchId,
+  revisionId,
+  body,
+  replyTo,
+}: {
+  patchId: Patch['id']
+  revisionId: Revision['id']
+  body: Comment['body']
+  replyTo?: Comment['id']
+}): Promise<boolean> {
+  const { data: rid } = await getNodeConnection().getCurrentProjectId()
+  if (!rid) {
+    log('Failed resolving RID', 'error')
+
+    return false
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = 'Cannot comment without an authenticated Radicle identity.'
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return false
+  }
+
+  const { error } = await window.withProgress(
+    {
+      location: ProgressLocation.Window,
+      title: `‎$(radicle-logo) Commenting on revision ${shortenHash(revisionId)}…`,
+    },
+    async () =>
+      await getNodeConnection().commentOnPatch(rid, patchId, { revisionId, body, replyTo }),
+  )
+  if (error) {
+    const button = 'Show Output'
+    const msg = `Failed commenting on revision ${shortenHash(revisionId)}`
+    log(`${msg}: ${error.message}`, 'error')
+    window.showErrorMessage(msg, button).then((userSelection) => {
+      userSelection === button && showLog()
+    })
+
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Guides a delegate of the project currently open in the workspace through reviewing a
+ * revision of the given (or a user-selected, if none is given) patch with an accepting or
+ * rejecting verdict, and publishes the review.
+ *
+ * @returns A promise that resolves to `true` if a review got published, otherwise `false`
+ */
+export async function reviewPatch(patch?: Pick<Patch, 'id'>): Promise<boolean> {
+  if (!(await useProjectStore().refreshIsLocalIdentityDelegate())) {
+    const msg = 'Only delegates of this project can review its patches.'
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const patchStore = usePatchStore()
+  await patchStore.initStoreIfNeeded()
+  const patchToReview = patch
+    ? patchStore.findPatchById(patch.id)
+    : await selectPatch(['open', 'draft'])
+  if (!patchToReview) {
+    return false
+  }
+
+  const revision = await selectRevision(patchToReview)
+  if (!revision) {
+    return false
+  }
+
+  const answers = await askUser([
+    {
+      key: 'summary',
+      kind: 'text',
+      title: `Review Revision ${shortenHash(revision.id)} of "${patchToReview.title}"`,
+      prompt: 'Optionally, enter a summary of your review.',
+      placeHolder: 'e.g. Looks good to me!',
+      ignoreFocusOut: true,
+    },
+  ])
+  if (!answers) {
+    return false
+  }
+
+  const verdictOptions = [
+    { label: '$(thumbsup) Accept', verdict: 'accept' },
+    { label: '$(thumbsdown) Reject', verdict: 'reject' },
+  ] as const satisfies readonly (QuickPickItem & { verdict: string })[]
+  const verdictSelection = await window.showQuickPick(verdictOptions, {
+    title: `Review Revision ${shortenHash(revision.id)} of "${patchToReview.title}"`,
+    placeHolder: 'Choose the verdict of your review',
+    ignoreFocusOut: true,
+  })
+  if (!verdictSelection) {
+    return false
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = 'Cannot review without an authenticated Radicle identity.'
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return false
+  }
+
+  const { data: rid } = await getNodeConnection().getCurrentProjectId()
+  if (!rid) {
+    log('Failed resolving RID', 'error')
+
+    return false
+  }
+
+  const { verdict } = verdictSelection
+  const { error } = await window.withProgress(
+    {
+      location: ProgressLocation.Window,
+      title: `‎$(radicle-logo) Publishing review of revision ${shortenHash(revision.id)}…`,
+    },
+    async () =>
+      await getNodeConnection().reviewPatch(rid, patchToReview.id, {
+        revisionId: revision.id,
+        verdict,
+        summary: answers.summary || undefined,
+      }),
+  )
+  if (error) {
+    const button = 'Show Output'
+    const msg = `Failed reviewing revision ${shortenHash(revision.id)}`
+    log(`${msg}: ${error.message}`, 'error')
+    window.showErrorMessage(msg, button).then((userSelection) => {
+      userSelection === button && showLog()
+    })
+
+    return false
+  }
+
+  await refetchPatchAndUpdateWebview(patchToReview.id)
+  window.showInformationMessage(
+    `${verdict === 'accept' ? 'Accepted' : 'Rejected'} revision ${shortenHash(
+      revision.id,
+    )} of patch "${patchToReview.title}"`,
+  )
+
+  return true
+}
+
+/**
+ * Guides a delegate of the project currently open in the workspace through merging a
+ * revision of the given (or a user-selected, if none is given) open patch into the project's
+ * default branch, either by fast-forwarding or with a merge commit, and pushes the result.
+ *
+ * @returns A promise that resolves to `true` if the patch got merged, otherwise `false`
+ */
+export async function mergePatch(patch?: Pick<Patch, 'id'>): Promise<boolean> {
+  if (!(await useProjectStore().refreshIsLocalIdentityDelegate())) {
+    const msg = 'Only delegates of this project can merge its patches.'
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const patchStore = usePatchStore()
+  await patchStore.initStoreIfNeeded()
+  const patchToMerge = patch ? patchStore.findPatchById(patch.id) : await selectPatch(['open'])
+  if (!patchToMerge) {
+    return false
+  }
+
+  const revision = await selectRevision(patchToMerge)
+  if (!revision) {
+    return false
+  }
+
+  const strategyOptions = [
+    {
+      label: '$(git-merge) Fast-forward',
+      detail: 'Fast-forward the default branch to the revision, failing if not possible',
+      gitMergeFlag: '--ff-only',
+    },
+    {
+      label: '$(git-commit) Merge commit',
+      detail: 'Always create a merge commit, even if fast-forwarding is possible',
+      gitMergeFlag: '--no-ff',
+    },
+  ] as const satisfies readonly (QuickPickItem & { gitMergeFlag: string })[]
+  const strategySelection = await window.showQuickPick(strategyOptions, {
+    title: `Merge Revision ${shortenHash(revision.id)} of "${patchToMerge.title}"`,
+    placeHolder: 'Choose how to merge the revision into the default branch',
+    ignoreFocusOut: true,
+  })
+  if (!strategySelection) {
+    return false
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = 'Cannot merge without an authenticated Radicle identity.'
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return false
+  }
+
+  const { data: rid } = await getNodeConnection().getCurrentProjectId()
+  if (!rid) {
+    log('Failed resolving RID', 'error')
+
+    return false
+  }
+
+  const { data: project, error } = await getNodeConnection().getProject(rid)
+  if (error) {
+    notifyUserAboutFetchError(error)
+
+    return false
+  }
+
+  const abortController = new AbortController()
+  const failedStep = await window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: `Merging revision ${shortenHash(revision.id)} of "${patchToMerge.title}"…`,
+      cancellable: true,
+    },
+    async (progress, cancellationToken) => {
+      cancellationToken.onCancellationRequested(() => {
+        abortController.abort()
+      })
+      const execOptions = {
+        cwd: '$workspaceDir',
+        shouldLog: true,
+        timeout: 60_000,
+        signal: abortController.signal,
+      } as const
+
+      progress.report({ message: 'fetching revision…' })
+      // ensures the revision's commits are available in the working copy
+      const didFetchRevision = await execAsync(
+        rad('patch', 'checkout', patchToMerge.id, '--revision', revision.id, '--force'),
+        execOptions,
+      )
+      if (didFetchRevision === undefined) {
+        return 'fetching the revision'
+      }
+
+      progress.report({ message: `checking out "${project.defaultBranch}"…` })
+      if (!(await checkOutDefaultBranch())) {
+        return `checking out "${project.defaultBranch}"`
+      }
+
+      progress.report({ message: 'merging…' })
+      const didMerge = await execAsync(
+        git(
+          'merge',
+          strategySelection.gitMergeFlag,
+          '-m',
+          `Merge patch "${patchToMerge.title}" (${patchToMerge.id})`,
+          '--end-of-options',
+          revision.oid,
+        ),
+        execOptions,
+      )
+      if (didMerge === undefined) {
+        await execAsync(git('merge', '--abort'), { cwd: '$workspaceDir' })
+
+        return 'merging the revision'
+      }
+
+      progress.report({ message: 'pushing…' })
+      const didPush = await execAsync(
+        git('push', '--end-of-options', 'rad', project.defaultBranch),
+        execOptions,
+      )
+      if (didPush === undefined) {
+        return `pushing "${project.defaultBranch}"`
+      }
+
+      return undefined
+    },
+  )
+  if (failedStep && abortController.signal.aborted) {
+    return false
+  } else if (failedStep) {
+    const button = 'Show Output'
+    const msg = `Failed ${failedStep} while merging patch "${patchToMerge.title}"`
+    log(msg, 'error')
+    window.showErrorMessage(msg, button).then((userSelection) => {
+      userSelection === button && showLog()
+    })
+
+    return false
+  }
+
+  await refetchPatchAndUpdateWebview(patchToMerge.id)
+  const isMerged = patchStore.findPatchById(patchToMerge.id)?.state.status === 'merged'
+  if (!isMerged) {
+    const msg = `Pushed the merged revision ${shortenHash(revision.id)} but patch "${
+      patchToMerge.title
+    }" isn't reported as merged yet. Please refresh it again later.`
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  const msg = `Merged patch "${patchToMerge.title}" using revision ${shortenHash(revision.id)}`
+  log(msg, 'info')
+  window.showInformationMessage(msg)
+
+  return true
+}
+
+/**
+ * Puts the given (or a user-selected, if none is given) patch in "compare revisions" mode in
+ * the Patches view, where its children are the files changed between two user-selected
+ * revisions instead of those changed by its latest one.
+ *
+ * @returns A promise that resolves to `true` if the patch entered the mode, otherwise `false`
+ */
+export async function compareRevisions(patch?: Pick<Patch, 'id'>): Promise<boolean> {
+  const patchStore = usePatchStore()
+  await patchStore.initStoreIfNeeded()
+  const patchToCompare = patch
+    ? patchStore.findPatchById(patch.id)
+    : await selectPatch(['draft', 'open', 'archived', 'merged'])
+  if (!patchToCompare) {
+    return false
+  }
+
+  if (patchToCompare.revisions.length < 2) {
+    window.showInformationMessage(
+      `Patch "${patchToCompare.title}" has only one revision, so there's nothing to compare.`,
+    )
+
+    return false
+  }
+
+  const firstRevision = await selectRevision(patchToCompare, {
+    placeHolder: `Choose the first of the two revisions of "${patchToCompare.title}" to compare`,
+  })
+  const secondRevision =
+    firstRevision &&
+    (await selectRevision(patchToCompare, {
+      placeHolder: `Choose the revision of "${patchToCompare.title}" to compare ${shortenHash(
+        firstRevision.id,
+      )} with`,
+      excluding: firstRevision,
+    }))
+  if (!firstRevision || !secondRevision) {
+    return false
+  }
+
+  setComparedRevisions(patchToCompare, [firstRevision, secondRevision])
+  revealPatch(patchToCompare, { expand: true })
+
+  return true
+}
+
+/**
+ * Puts the given patch back to its default mode in the Patches view, where its children are
+ * the files changed by its latest revision.
+ */
+export function stopComparingRevisions(patch: Pick<Patch, 'id'>): void {
+  const patchToReset = usePatchStore().findPatchById(patch.id)
+  patchToReset && setComparedRevisions(patchToReset, undefined)
+}
+
+/**
+ * The states a patch must be in for it to be transitionable to each settable state.
+ */
+const transitionableFromStatuses: Record<SettablePatchStatus, PatchStatus[]> = {
+  draft: ['open'],
+  open: ['draft', 'archived'],
+  archived: ['draft', 'open'],
+}
+
+/**
+ * Transitions the given (or a user-selected, if none is given) patch to the given state,
+ * e.g. to archive, reopen, mark as ready for review or convert it back to a draft.
+ *
+ * @returns A promise that resolves to `true` if the patch's state got changed, otherwise
+ * `false`
+ */
+export async function changePatchState(
+  patch: Pick<Patch, 'id'> | undefined,
+  status: SettablePatchStatus,
+): Promise<boolean> {
+  const patchStore = usePatchStore()
+  await patchStore.initStoreIfNeeded()
+  const patchToChange = patch
+    ? patchStore.findPatchById(patch.id)
+    : await selectPatch(transitionableFromStatuses[status])
+  if (!patchToChange) {
+    return false
+  }
+
+  const prevStatus = patchToChange.state.status
+  if (!transitionableFromStatuses[status].includes(prevStatus)) {
+    const msg = `Cannot change the state of ${prevStatus} patch "${patchToChange.title}" to ${status}.`
+    log(msg, 'warn')
+    window.showWarningMessage(msg)
+
+    return false
+  }
+
+  if (!(await launchAuthenticationFlow())) {
+    const msg = "Cannot change a patch's state without an authenticated Radicle identity."
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return false
+  }
+
+  const { error } = await window.withProgress(
+    {
+      location: ProgressLocation.Window,
+      title: `‎$(radicle-logo) Changing state of patch ${shortenHash(
+        patchToChange.id,
+      )} to ${status}…`,
+    },
+    async () => await patchStore.changePatchState(patchToChange.id, status),
+  )
+  updateWebviewIfShowing(patchToChange)
+  if (error) {
+    const button = 'Show Output'
+    const msg = `Failed changing state of patch "${patchToChange.title}" to ${status}`
+    log(`${msg}: ${error.message}`, 'error')
+    window.showErrorMessage(msg, button).then((userSelection) => {
+      userSelection === button && showLog()
+    })
+
+    return false
+  }
+
+  log(
+    `Changed state of patch "${patchToChange.title}" from ${prevStatus} to ${status}`,
+    'info',
+  )
+
+  return true
+}
+
+/**
+ * Resolves the commits of the currently checked-out branch that aren't on the given base
+ * branch, oldest first. Prefers comparing against the base branch as last pushed to the
+ * `rad` remote, falling back to the local one.
+ */
+function getCommitsAheadOf(
+  baseBranch: string,
+): { subject: string; body: string }[] | undefined {
+  const execOptions = { cwd: '$workspaceDir' } as const
+  const base = exec(git('rev-parse', '--verify', '--quiet', `rad/${baseBranch}`), execOptions)
+    ? `rad/${baseBranch}`
+    : baseBranch
+  // fields are separated with the ASCII "unit separator" and commits with the "record separator"
+  const gitLogOutput = exec(
+    git('log', '--reverse', '--format=%s%x1f%b%x1e', '--end-of-options', `${base}..HEAD`),
+    { ...execOptions, outputTrimming: false },
+  )
+
+  return gitLogOutput
+    ?.split('\x1E')
+    .map((commit) => commit.trim())
+    .filter(Boolean)
+    .map((commit) => {
+      const [subject = '', body = ''] = commit.split('\x1F')
+
+      return { subject: subject.trim(), body: body.trim() }
+    })
+}
+
+async function selectPatch(
+  statuses: Patch['state']['status'][],
+): Promise<AugmentedPatch | undefined> {
+  const patches = (usePatchStore().patches ?? []).filter((patch) =>
+    statuses.includes(patch.state.status),
+  )
+  if (!patches.length) {
+    window.showInformationMessage(
+      `There are no ${statuses.join(' or ')} patches to choose from.`,
+    )
+
+    return undefined
+  }
+
+  const selection = await window.showQuickPick(
+    patches.map((patch) => ({
+      label: patch.title,
+      description: `${shortenHash(patch.id)} · ${patch.state.status}`,
+      detail: `by ${getIdentityAliasOrId(patch.author)}`,
+      patch,
+    })),
+    { placeHolder: 'Choose a patch', ignoreFocusOut: true, matchOnDescription: true },
+  )
+
+  return selection?.patch
+}
+
+async function selectRevision(
+  patch: Patch,
+  options?: { placeHolder?: string; excluding?: Revision },
+): Promise<Revision | undefined> {
+  const latestRevisionId = getFirstAndLatestRevisions(patch).latestRevision.id
+  const revisionsLatestFirst = [...patch.revisions]
+    .filter((revision) => revision.id !== options?.excluding?.id)
+    .sort((r1, r2) => r2.timestamp - r1.timestamp)
+  if (revisionsLatestFirst.length === 1) {
+    return revisionsLatestFirst[0]
+  }
+
+  const selection = await window.showQuickPick(
+    revisionsLatestFirst.map((revision) => ({
+      label: shortenHash(revision.id),
+      description: `${revision.id === latestRevisionId ? 'latest · ' : ''}${getTimeAgo(
+        revision.timestamp,
+      )} by ${getIdentityAliasOrId(revision.author)}`,
+      detail: revision.description,
+      revision,
+    })),
+    {
+      placeHolder: options?.placeHolder ?? `Choose a revision of "${patch.title}"`,
+      ignoreFocusOut: true,
+    },
+  )
+
+  return selection?.revision
+}
@@ -12,22 +12,32 @@ import {
 } from 'vscode'
 import { getNodeConnection } from 'src/utils/nodeConnection'
 import { usePatchStore } from '../stores'
-import { debouncedClearMemoizedGetCurrentProjectIdCache } from '../helpers'
+import {
+  type PatchDiffSide,
+  debouncedClearMemoizedGetCurrentProjectIdCache,
+  fetchNodeDiff,
+  getNodeDiffFilechanges,
+  toNodeDiffUri,
+} from '../helpers'
 import {
   type AugmentedPatch,
   type Change,
   type GitExtensionAPI,
   type Patch,
+  type Revision,
   isPatch,
 } from '../types'
 import {
   assertUnreachable,
   capitalizeFirstLetter,
+  exec,
+  execAsync,
   getFirstAndLatestRevisions,
   getGitExtensionAPI,
   getIdentityAliasOrId,
   getRepoRoot,
   getTimeAgo,
+  git,
   gitExtensionStatusToInternalFileChangeState,
   shortenHash,
 } from '../utils'
@@ -37,13 +47,42 @@ const checkmark = '✓'
 
 let timesPatchListFetchErroredConsecutively = 0
 
+/**
+ * The pair of revisions whose heads get diffed in place of the latest revision's changes,
+ * keyed by the id of the patch in "compare revisions" mode.
+ */
+const comparedRevisionsPerPatch = new Map<Patch['id'], { older: Revision; newer: Revision }>()
+
 // TODO: maninak show in item and tooltip if the chosen revision is approved, by whom and when
 
+export interface RevisionNode {
+  patch: AugmentedPatch
+  revision: Revision
+}
+
+export interface ChangedFile {
+  state: ReturnType<typeof gitExtensionStatusToInternalFileChangeState>
+  /**
+   * The path of the file before the change, relative to the repo root.
+   */
+  oldPath: string
+  /**
+   * The path of the file after the change, relative to the repo root.
+   */
+  newPath: string
+  oldVersionUri: Uri
+  newVersionUri: Uri
+}
+
 export interface FilechangeNode {
   relativeInRepoUrl: string
   oldVersionUri?: Uri
   newVersionUri?: Uri
   patch: AugmentedPatch
+  /**
+   * The node of the revision the file got changed in, unless listed while comparing revisions.
+   */
+  revisionNode?: RevisionNode
   getTreeItem: () => ReturnType<(typeof patchesTreeDataProvider)['getTreeItem']>
 }
 
@@ -64,8 +103,40 @@ export function rerenderAllItemsInPatchesView() {
   rerenderPatchesViewEventEmitter.fire(undefined)
 }
 
+/**
+ * Puts the patch in "compare revisions" mode, where its children are the files changed
+ * between the heads of the two given revisions, or back to its default mode if none are given.
+ */
+export function setComparedRevisions(
+  patch: AugmentedPatch,
+  revisions: [Revision, Revision] | undefined,
+): void {
+  if (revisions) {
+    const [older, newer] = [...revisions].sort((r1, r2) => r1.timestamp - r2.timestamp) as [
+      Revision,
+      Revision,
+    ]
+    comparedRevisionsPerPatch.set(patch.id, { older, newer })
+  } else {
+    comparedRevisionsPerPatch.delete(patch.id)
+  }
+
+  rerenderSomeItemsInPatchesView(patch)
+}
+
+function getComparedRevisions(patch: Patch) {
+  const comparedRevisions = comparedRevisionsPerPatch.get(patch.id)
+  const areStillPartOfPatch =
+    comparedRevisions &&
+    [comparedRevisions.older, comparedRevisions.newer].every((revision) =>
+      patch.revisions.some(({ id }) => id === revision.id),
+    )
+
+  return areStillPartOfPatch ? comparedRevisions : undefined
+}
+
 export const patchesTreeDataProvider: TreeDataProvider<
-  string | AugmentedPatch | FilechangeNode
+  string | AugmentedPatch | RevisionNode | FilechangeNode
 > = {
   getTreeItem: (elem) => {
     if (typeof elem === 'string') {
@@ -73,11 +144,14 @@ export const patchesTreeDataProvider: TreeDataProvider<
     } else if (isPatch(elem)) {
       const patch = elem
       const isCheckedOut = patch.id === usePatchStore().checkedOutPatch?.id
+      const isComparingRevisions = Boolean(getComparedRevisions(patch))
       const edgeRevisions = getFirstAndLatestRevisions(patch)
 
       const treeItem: TreeItem = {
         id: patch.id,
-        contextValue: `patch:checked-out-${isCheckedOut}`,
+        contextValue: `patch:checked-out-${isCheckedOut}:${patch.state.status}${
+          isComparingRevisions ? ':comparing-revisions' : ''
+        }`,
         iconPath: getThemeIconForPatch(patch),
         label: `${isCheckedOut ? `❬${checkmark}❭ ` : ''}${patch.title}`,
         description: getPatchTreeItemDescription(patch, edgeRevisions),
@@ -85,6 +159,26 @@ export const patchesTreeDataProvider: TreeDataProvider<
         collapsibleState: TreeItemCollapsibleState.Collapsed,
       }
 
+      return treeItem
+    } else if (isRevisionNode(elem)) {
+      const { patch, revision } = elem
+      const { latestRevision } = getFirstAndLatestRevisions(patch)
+      const isLatest = revision.id === latestRevision.id
+
+      const treeItem: TreeItem = {
+        id: `${patch.id} ${revision.id}`,
+        contextValue: `revision:latest-${isLatest}`,
+        iconPath: new ThemeIcon('git-commit'),
+        label: `${isLatest ? 'Latest revision' : 'Revision'} ${shortenHash(revision.id)}`,
+        description: `${getTimeAgo(revision.timestamp, 'mini')} ${dot} ${getIdentityAliasOrId(
+          revision.author,
+        )}`,
+        tooltip: getRevisionTreeItemTooltip(revision, isLatest),
+        collapsibleState: isLatest
+          ? TreeItemCollapsibleState.Expanded
+          : TreeItemCollapsibleState.Collapsed,
+      }
+
       return treeItem
     } else {
       const filechangeNode = elem
@@ -136,107 +230,403 @@ export const patchesTreeDataProvider: TreeDataProvider<
       return patchesSortedByRevisionTsPerStatus
     }
 
-    if (!isPatch(elem)) {
-      return undefined
-    }
+    if (isRevisionNode(elem)) {
+      const { patch, revision } = elem
+      const range = {
+        old: revision.base,
+        new: revision.oid,
+      }
+      const filechangeNodes = await getFilechangeNodes(patch, range, { revisionNode: elem })
+      if (filechangeNodes.length === 0) {
+        return [
+          `No changes between revision's base "${shortenHash(
+            revision.base,
+          )}" and head "${shortenHash(revision.oid)}" commits.`,
+        ]
+      }
 
-    const patch = elem
-    const { latestRevision } = getFirstAndLatestRevisions(patch)
-    const range = {
-      old: latestRevision.base,
-      new: latestRevision.oid,
+      return filechangeNodes
     }
 
-    const gitExtensionApi: GitExtensionAPI = getGitExtensionAPI()
-
-    const repoRoot = getRepoRoot()
-    if (repoRoot === undefined) {
-      throw new Error(`Failed to determine Git repository root.`)
+    if (!isPatch(elem)) {
+      return undefined
     }
 
-    const repo = gitExtensionApi.getRepository(Uri.file(repoRoot))
-    if (repo === null) {
-      throw new Error(`Failed access Git repository.`)
+    const patch = elem
+    const comparedRevisions = getComparedRevisions(patch)
+    if (comparedRevisions) {
+      return await getChildrenComparingRevisions(patch, comparedRevisions)
     }
 
-    const changes: Change[] = await repo?.diffBetween(range.old, range.new)
-    if (changes.length === 0) {
-      return [
-        `No changes between latest revision's base "${shortenHash(
-          latestRevision.base,
-        )}" and head "${shortenHash(latestRevision.oid)}" commits.`,
-      ]
-    }
+    const revisionNodes = [...patch.revisions]
+      .sort((r1, r2) => r2.timestamp - r1.timestamp)
+      .map((revision): RevisionNode => ({ patch, revision }))
 
-    return changes
-      .map((change: Change): FilechangeNode => {
-        const { originalUri, status } = change
-        const uri = change.renameUri || change.uri
-        const internalFileChangeState = gitExtensionStatusToInternalFileChangeState(status)
-        const isCopy = internalFileChangeState === 'copied'
-        const isMoveOrCopy = isCopy || internalFileChangeState === 'moved'
-        const humanReadable = capitalizeFirstLetter(internalFileChangeState)
-        const basename = Path.basename(uri.fsPath)
-        const git = {
-          originalUri: gitExtensionApi.toGitUri(originalUri, range.old),
-          uri: gitExtensionApi.toGitUri(uri, range.new),
-        }
-        const relative = {
-          originalUri: Path.relative(repoRoot, originalUri.fsPath),
-          uri: Path.relative(repoRoot, uri.fsPath),
-        }
-        const relativeDirname = Path.dirname(relative.uri)
-
-        return {
-          relativeInRepoUrl: relative.uri,
-          oldVersionUri: git.originalUri,
-          newVersionUri: git.uri,
-          patch,
-          getTreeItem: () => {
-            const filechangeTreeItem: TreeItem = {
-              id: `${patch.id} ${range.old}..${range.new} ${uri}`,
-              contextValue: `filechange:${internalFileChangeState}`,
-              label: basename,
-              description: relativeDirname === '.' ? '' : relativeDirname,
-              tooltip: `${
-                isMoveOrCopy ? `${relative.originalUri} ${isCopy ? '↦' : '➟'} ` : ''
-              }${relative.uri} ${dot} ${humanReadable}`,
-              resourceUri: uri,
-              command: {
-                command: 'radicle.openDiff',
-                title: `Open changes`,
-                tooltip: `Show this file's changes between its \
-before-the-Patch version and its latest version committed in the Radicle Patch`,
-                arguments: [
-                  git.originalUri,
-                  git.uri,
-                  `${basename} (${shortenHash(range.old)} ⟷ ${shortenHash(
-                    range.new,
-                  )}) ${humanReadable}`,
-                  { preview: true } satisfies TextDocumentShowOptions,
-                ],
-              },
-            }
-
-            return filechangeTreeItem
-          },
-        }
-      })
-      .sort((n1, n2) =>
-        // FIXME(lorenzleutgeb): Use user's locale for comparison once cytechmobile/radicle-vscode-extension#116 is resolved.
-        n1.relativeInRepoUrl.localeCompare(n2.relativeInRepoUrl),
-      )
+    return revisionNodes
   },
   getParent: (elem) => {
     if (typeof elem === 'string' || isPatch(elem)) {
       return undefined
-    } else {
+    } else if (isRevisionNode(elem)) {
       return elem.patch
+    } else {
+      return elem.revisionNode ?? elem.patch
     }
   },
   onDidChangeTreeData: rerenderPatchesViewEventEmitter.event,
 } as const
 
+/**
+ * Resolves the files changed between the given commits of a patch as tree nodes which open
+ * a diff editor when clicked, optionally keeping only the changes to the given files. The
+ * changed files get resolved via `getChangedFiles()`, unless already supplied.
+ */
+async function getFilechangeNodes(
+  patch: AugmentedPatch,
+  range: { old: string; new: string },
+  options?: {
+    changedFiles?: ChangedFile[]
+    keepOnlyChangesTo?: Set<string>
+    revisionNode?: RevisionNode
+  },
+): Promise<FilechangeNode[]> {
+  const { repoRoot } = getGitRepoOfWorkspace()
+  const changedFiles = (options?.changedFiles ?? (await getChangedFiles(range))).filter(
+    (file) =>
+      !options?.keepOnlyChangesTo ||
+      options.keepOnlyChangesTo.has(file.oldPath) ||
+      options.keepOnlyChangesTo.has(file.newPath),
+  )
+
+  return changedFiles
+    .map((file): FilechangeNode => {
+      const { state, oldPath, newPath, oldVersionUri, newVersionUri } = file
+      const uri = Uri.file(Path.join(repoRoot, newPath))
+      const isCopy = state === 'copied'
+      const isMoveOrCopy = isCopy || state === 'moved'
+      const humanReadable = capitalizeFirstLetter(state)
+      const basename = Path.basename(newPath)
+      const relativeDirname = Path.dirname(newPath)
+
+      return {
+        relativeInRepoUrl: newPath,
+        oldVersionUri,
+        newVersionUri,
+        patch,
+        revisionNode: options?.revisionNode,
+        getTreeItem: () => {
+          const filechangeTreeItem: TreeItem = {
+            id: `${patch.id} ${range.old}..${range.new} ${uri}`,
+            contextValue: `filechange:${state}`,
+            label: basename,
+            description: relativeDirname === '.' ? '' : relativeDirname,
+            tooltip: `${
+              isMoveOrCopy ? `${oldPath} ${isCopy ? '↦' : '➟'} ` : ''
+            }${newPath} ${dot} ${humanReadable}`,
+            resourceUri: uri,
+            command: {
+              command: 'radicle.openDiff',
+              title: `Open changes`,
+              tooltip: `Show this file's changes between commits ${shortenHash(
+                range.old,
+              )} and ${shortenHash(range.new)} of the Radicle Patch`,
+              arguments: [
+                oldVersionUri,
+                newVersionUri,
+                `${basename} (${shortenHash(range.old)} ⟷ ${shortenHash(
+                  range.new,
+                )}) ${humanReadable}`,
+                { preview: true } satisfies TextDocumentShowOptions,
+                {
+                  original: { patchId: patch.id, path: oldPath, commit: range.old },
+                  changed: { patchId: patch.id, path: newPath, commit: range.new },
+                } satisfies { original: PatchDiffSide; changed: PatchDiffSide },
+              ],
+            },
+          }
+
+          return filechangeTreeItem
+        },
+      }
+    })
+    .sort((n1, n2) =>
+      // FIXME(lorenzleutgeb): Use user's locale for comparison once cytechmobile/radicle-vscode-extension#116 is resolved.
+      n1.relativeInRepoUrl.localeCompare(n2.relativeInRepoUrl),
+    )
+}
+
+/**
+ * Resolves the files changed between the given commits along with uris to both of their
+ * versions. The local git repo is used if both commits are available in it, otherwise the
+ * diff supplied by the Radicle node, served via the `radicle-node-diff` uri scheme.
+ */
+export async function getChangedFiles(range: {
+  old: string
+  new: string
+}): Promise<ChangedFile[]> {
+  const { gitExtensionApi, repo, repoRoot } = getGitRepoOfWorkspace()
+
+  const areCommitsAvailableLocally = [range.old, range.new].every(
+    (commit) =>
+      exec(git('cat-file', '-e', '--end-of-options', `${commit}^{commit}`), {
+        cwd: '$workspaceDir',
+      }) !== undefined,
+  )
+  if (areCommitsAvailableLocally) {
+    const changes: Change[] = await repo.diffBetween(range.old, range.new)
+
+    return changes.map((change) => {
+      const uri = change.renameUri || change.uri
+
+      return {
+        state: gitExtensionStatusToInternalFileChangeState(change.status),
+        oldPath: Path.relative(repoRoot, change.originalUri.fsPath),
+        newPath: Path.relative(repoRoot, uri.fsPath),
+        oldVersionUri: gitExtensionApi.toGitUri(change.originalUri, range.old),
+        newVersionUri: gitExtensionApi.toGitUri(uri, range.new),
+      }
+    })
+  }
+
+  const { data: diff, error } = await fetchNodeDiff(range)
+  if (error) {
+    throw new Error(
+      `Failed fetching changes between commits "${shortenHash(range.old)}" and "${shortenHash(
+        range.new,
+      )}": ${error.message}`,
+    )
+  }
+
+  return getNodeDiffFilechanges(diff.diff).map((file) => ({
+    state: file.state,
+    oldPath: file.oldPath,
+    newPath: file.newPath,
+    oldVersionUri: toNodeDiffUri(file.oldPath, range, 'old'),
+    newVersionUri: toNodeDiffUri(file.newPath, range, 'new'),
+  }))
+}
+
+/**
+ * Resolves the files changed between the heads of the two compared revisions of a patch.
+ *
+ * If the newer revision got rebased onto a different base, the diff between the two heads
+ * would also contain all upstream changes that happened in-between the two bases. In that
+ * case the older revision gets replayed onto the newer one's base and that is diffed
+ * against the newer head instead. If replaying isn't possible, e.g. because of conflicts,
+ * the heads are diffed as a whole, listing only files also touched by either revision.
+ */
+async function getChildrenComparingRevisions(
+  patch: AugmentedPatch,
+  { older, newer }: { older: Revision; newer: Revision },
+): Promise<(string | FilechangeNode)[]> {
+  const comparison = `Comparing revision ${shortenHash(older.id)} ⟷ ${shortenHash(newer.id)}`
+  const isRebased = older.base !== newer.base
+
+  let comparisonLabel = comparison
+  let filechangeNodes: FilechangeNode[]
+  const replayedOlderHead = isRebased ? await replayRevisionOnto(older, newer.base) : undefined
+  const replayedChangedFiles =
+    replayedOlderHead &&
+    (await getChangedFilesBetweenLocalCommits({ old: replayedOlderHead, new: newer.oid }))
+  if (replayedOlderHead && replayedChangedFiles) {
+    comparisonLabel = `${comparison} (rebased, older revision replayed onto the newer's base)`
+    filechangeNodes = await getFilechangeNodes(
+      patch,
+      { old: replayedOlderHead, new: newer.oid },
+      { changedFiles: replayedChangedFiles },
+    )
+  } else if (isRebased) {
+    comparisonLabel = `${comparison} (rebased, only listing files touched by either revision)`
+    const changesOfEitherRevision = (
+      await Promise.all([
+        getChangedFiles({ old: older.base, new: older.oid }),
+        getChangedFiles({ old: newer.base, new: newer.oid }),
+      ])
+    ).flat()
+    filechangeNodes = await getFilechangeNodes(
+      patch,
+      { old: older.oid, new: newer.oid },
+      {
+        keepOnlyChangesTo: new Set(
+          changesOfEitherRevision.flatMap((file) => [file.oldPath, file.newPath]),
+        ),
+      },
+    )
+  } else {
+    filechangeNodes = await getFilechangeNodes(patch, { old: older.oid, new: newer.oid })
+  }
+
+  return [
+    comparisonLabel,
+    ...(filechangeNodes.length
+      ? filechangeNodes
+      : [
+          `No changes between the heads "${shortenHash(older.oid)}" and "${shortenHash(
+            newer.oid,
+          )}" of the compared revisions.`,
+        ]),
+  ]
+}
+
+/**
+ * Replays the changes a revision makes to its base onto the given other base, as a commit of
+ * the local git repo.
+ *
+ * @returns The hash of the replayed commit, or `undefined` if the revision's changes don't
+ * apply cleanly onto the other base, either isn't available locally or git predates v2.40.
+ */
+async function replayRevisionOnto(
+  revision: Revision,
+  base: string,
+): Promise<string | undefined> {
+  const execOptions = { cwd: '$workspaceDir' } as const
+  const tree = await execAsync(
+    git(
+      'merge-tree',
+      '--write-tree',
+      `--merge-base=${revision.base}`,
+      '--end-of-options',
+      base,
+      revision.oid,
+    ),
+    execOptions,
+  )
+  if (!tree || !/^[0-9a-f]+$/.test(tree)) {
+    return undefined
+  }
+
+  // a fixed identity and date keep the commit's hash, and thus the ids of the view's tree
+  // items, the same across re-renders
+  const date = `${revision.timestamp} +0000`
+  const commit = await execAsync(
+    git(
+      'commit-tree',
+      '--no-gpg-sign',
+      '-p',
+      base,
+      '-m',
+      `Revision ${revision.id} replayed onto ${base}`,
+      tree,
+    ),
+    {
+      ...execOptions,
+      env: {
+        GIT_AUTHOR_NAME: 'Radicle',
+        GIT_AUTHOR_EMAIL: 'radicle@localhost',
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_NAME: 'Radicle',
+        GIT_COMMITTER_EMAIL: 'radicle@localhost',
+        GIT_COMMITTER_DATE: date,
+      },
+    },
+  )
+
+  return commit && /^[0-9a-f]+$/.test(commit) ? commit : undefined
+}
+
+/**
+ * Resolves the files changed between two commits of the local git repo. Unlike
+ * `getChangedFiles()`, the commits are diffed directly against each other instead of the
+ * newer one against their merge base.
+ *
+ * @returns The changed files, or `undefined` if diffing the commits failed.
+ */
+async function getChangedFilesBetweenLocalCommits(range: {
+  old: string
+  new: string
+}): Promise<ChangedFile[] | undefined> {
+  const { gitExtensionApi, repoRoot } = getGitRepoOfWorkspace()
+  const output = await execAsync(
+    git('diff', '--name-status', '-z', '-M', '--end-of-options', range.old, range.new),
+    { cwd: '$workspaceDir', outputTrimming: false },
+  )
+  if (output === undefined) {
+    return undefined
+  }
+
+  // each entry is NUL-separated as `<status>\0<path>\0`, or with both paths if moved/copied
+  const fields = output.split('\0')
+  const changedFiles: ChangedFile[] = []
+  for (let i = 0; i < fields.length - 1; ) {
+    const status = fields[i++]?.[0]
+    const oldPath = fields[i++] ?? ''
+    const newPath = status === 'R' || status === 'C' ? fields[i++] ?? '' : oldPath
+    changedFiles.push({
+      state: toFileChangeState(status),
+      oldPath,
+      newPath,
+      oldVersionUri: gitExtensionApi.toGitUri(
+        Uri.file(Path.join(repoRoot, oldPath)),
+        range.old,
+      ),
+      newVersionUri: gitExtensionApi.toGitUri(
+        Uri.file(Path.join(repoRoot, newPath)),
+        range.new,
+      ),
+    })
+  }
+
+  return changedFiles
+}
+
+/**
+ * Maps the status letter `git diff --name-status` prints for a file to its change state.
+ */
+function toFileChangeState(statusLetter: string | undefined): ChangedFile['state'] {
+  switch (statusLetter) {
+    case 'A':
+      return 'added'
+    case 'C':
+      return 'copied'
+    case 'D':
+      return 'deleted'
+    case 'R':
+      return 'moved'
+    default:
+      return 'modified'
+  }
+}
+
+function getGitRepoOfWorkspace() {
+  const gitExtensionApi: GitExtensionAPI = getGitExtensionAPI()
+
+  const repoRoot = getRepoRoot()
+  if (repoRoot === undefined) {
+    throw new Error(`Failed to determine Git repository root.`)
+  }
+
+  const repo = gitExtensionApi.getRepository(Uri.file(repoRoot))
+  if (repo === null) {
+    throw new Error(`Failed access Git repository.`)
+  }
+
+  return { gitExtensionApi, repo, repoRoot }
+}
+
+function isRevisionNode(
+  elem: string | AugmentedPatch | RevisionNode | FilechangeNode,
+): elem is RevisionNode {
+  return typeof elem === 'object' && 'revision' in elem
+}
+
+function getRevisionTreeItemTooltip(revision: Revision, isLatest: boolean) {
+  const lineBreak = '\n\n'
+
+  const tooltip = new MarkdownString(
+    [
+      `${isLatest ? 'Latest revision' : 'Revision'} ${dat(revision.id)}`,
+      ...(revision.description ? [revision.description] : []),
+      `Created by ${dat(getIdentityAliasOrId(revision.author))} ${dat(
+        getTimeAgo(revision.timestamp),
+      )} with head commit ${dat(shortenHash(revision.oid))} on base commit ${dat(
+        shortenHash(revision.base),
+      )}`,
+    ].join(lineBreak),
+  )
+
+  return tooltip
+}
+
 function getPatchTreeItemDescription(
   patch: Patch,
   { latestRevision }: ReturnType<typeof getFirstAndLatestRevisions>,
@@ -1,11 +1,13 @@
 import { type QuickPickItem, Uri, env, window } from 'vscode'
 import {
+  expandHomeDir,
   getConfig,
   getRadCliPath,
   getRadCliRef,
   getRadCliVersion,
   isRadCliInstalled,
   setConfig,
+  setDetectedRadCliVersion,
 } from '../helpers'
 import { exec, log, setWhenClauseContext } from '../utils'
 
@@ -75,7 +77,10 @@ export async function troubleshootRadCliInstallation(): Promise<void> {
         placeHolder: 'For example: /usr/bin/rad',
         validateInput: (input) => {
           const isPathToRadCli = Boolean(
-            exec(`${input.trim()} --version`, { shouldLog: true }),
+            exec(
+              { file: expandHomeDir(input.trim()), args: ['--version'] },
+              { shouldLog: true },
+            ),
           )
 
           return isPathToRadCli
@@ -106,6 +111,7 @@ export function validateRadCliInstallation(
 
   if (isRadInstalled) {
     const cliVersion = getRadCliVersion()
+    setDetectedRadCliVersion(cliVersion)
     const cliPath = getRadCliPath()
     const msg = `Using Radicle CLI v${cliVersion} from "${cliPath}"`
 
@@ -115,8 +121,9 @@ export function validateRadCliInstallation(
     return true
   }
 
+  setDetectedRadCliVersion(undefined)
   log(
-    `Failed resolving Radicle CLI binary. Tried invoking it in the shell as "${getRadCliRef()}".`,
+    `Failed resolving Radicle CLI binary. Tried invoking it as "${getRadCliRef()}".`,
     'error',
   )
 
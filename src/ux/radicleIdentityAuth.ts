@@ -4,13 +4,13 @@ import { getExtensionContext } from '../stores'
 import {
   composeNodeHomePathMsg,
   getNodeSshKey,
-  getRadCliRef,
   getRadicleIdentity,
   getResolvedPathToNodeHome,
   isRadCliInstalled,
   isRadInitialized,
   isRadicleIdentityAuthed,
   isRadicleIdentityKeyEncrypted,
+  rad,
 } from '../helpers'
 
 function composeRadAuthSuccessMsg(
@@ -52,8 +52,7 @@ function composeRadAuthSuccessMsg(
 }
 
 function authenticate({ alias, passphrase }: { alias?: string; passphrase: string }): boolean {
-  const radAuthCmdSuffix = alias ? `--alias ${alias}` : ''
-  const didAuth = exec(`${getRadCliRef()} auth ${radAuthCmdSuffix}`, {
+  const didAuth = exec(rad('auth', ...(alias ? ['--alias', alias] : [])), {
     env: { RAD_PASSPHRASE: passphrase },
   })
   if (!didAuth) {
@@ -94,7 +93,7 @@ export async function launchAuthenticationFlow(
     const storedPass = await secrets.get(radicleId.DID)
 
     if (storedPass) {
-      const didAuth = exec(`${getRadCliRef()} auth`, { env: { RAD_PASSPHRASE: storedPass } })
+      const didAuth = exec(rad('auth'), { env: { RAD_PASSPHRASE: storedPass } })
       if (didAuth) {
         log(composeRadAuthSuccessMsg('didAutoUnlockId'), 'info')
 
@@ -135,12 +134,13 @@ export async function launchAuthenticationFlow(
         prompt: `Please enter the passphrase used to unlock your Radicle identity.`,
         placeHolder: '************',
         validateInput: (input) => {
-          const didAuth = exec(`${getRadCliRef()} auth`, { env: { RAD_PASSPHRASE: input } })
+          const didAuth = exec(rad('auth'), { env: { RAD_PASSPHRASE: input } })
           if (!didAuth) {
             return "Current input isn't the correct passphrase to unlock the identity."
           }
 
-          exec(`ssh-add -D ${getNodeSshKey('fingerprint')}`)
+          const sshKey = getNodeSshKey('fingerprint')
+          exec({ file: 'ssh-add', args: ['-D', ...(sshKey ? [sshKey] : [])] })
 
           return undefined
         },
@@ -280,7 +280,8 @@ export function deAuthCurrentRadicleIdentity(): boolean {
     return true
   }
 
-  const didDeAuth = exec(`ssh-add -D ${sshKey}`, { shouldLog: true }) !== undefined
+  const didDeAuth =
+    exec({ file: 'ssh-add', args: ['-D', sshKey] }, { shouldLog: true }) !== undefined
   const radicleId = getRadicleIdentity('DID')
   if (!didDeAuth) {
     const button = 'Show output'
@@ -1,8 +1,10 @@
 import { sep } from 'node:path'
-import { ProgressLocation, type QuickPickItem, Uri, commands, window } from 'vscode'
+import { ProgressLocation, type QuickPickItem, Uri, commands, window, workspace } from 'vscode'
 import { getNodeConnection } from 'src/utils/nodeConnection'
-import { getRadCliRef } from '../helpers'
-import { exec, getRepoRoot, log, showLog } from '../utils'
+import { rad, toRadUri } from '../helpers'
+import type { Project } from '../types'
+import type { RID } from '../types/node'
+import { execWithProgress, getRepoRoot, log, shortenHash, showLog } from '../utils'
 import { notifyUserAboutFetchError } from './httpdConnection'
 import { launchAuthenticationFlow } from './radicleIdentityAuth'
 
@@ -15,50 +17,20 @@ export async function selectAndCloneRadicleRepo(): Promise<void> {
     return
   }
 
-  const { data: repos, error } = await window.withProgress(
-    {
-      location: ProgressLocation.Window,
-      title: `‎$(radicle-logo) Fetching list of repos available for cloning…`,
-    },
-    async () => {
-      return await getNodeConnection().getAllProjects()
-    },
-  )
-  if (!repos) {
-    notifyUserAboutFetchError(error)
-
-    return
-  }
-
-  const qPickItems: QuickPickItem[] = repos
-    .sort((p1, p2) => p2.seeding - p1.seeding)
-    .map((proj) => ({
-      label: proj.name,
-      description: `$(radio-tower) ${proj.seeding} | ${proj.id}`,
-      detail: proj.description,
-      icon: 'repo',
-    }))
-
-  const projSelection = await window.showQuickPick(qPickItems, {
+  const selectedProject = await selectRadicleRepo({
+    purpose: 'cloning',
     placeHolder: 'Choose a Radicle repo to clone locally',
-    ignoreFocusOut: true,
-    matchOnDescription: true,
-    matchOnDetail: true,
   })
-  if (!projSelection?.label) {
-    return
-  }
-
-  const selectedRid = repos.find((proj) => proj.name === projSelection.label)?.id
-  if (!selectedRid) {
+  if (!selectedProject) {
     return
   }
+  const { id: selectedRid, name: selectedName } = selectedProject
 
   const repoRoot = getRepoRoot()
   const oneFolderUpFromRepoRoot = repoRoot?.split(sep).slice(0, -1).join(sep)
   const cloneTargetDir = (
     await window.showOpenDialog({
-      title: `Choose a folder to clone ${projSelection.label} into`,
+      title: `Choose a folder to clone ${selectedName} into`,
       openLabel: 'Select as Destination',
       canSelectMany: false,
       canSelectFiles: false,
@@ -70,21 +42,19 @@ export async function selectAndCloneRadicleRepo(): Promise<void> {
     return
   }
 
-  const msgSuffix = `repo "${projSelection.label}" with id (RID) "${selectedRid}" into "${cloneTargetDir.fsPath}"`
-  const didClone = await window.withProgress(
+  const msgSuffix = `repo "${selectedName}" with id (RID) "${selectedRid}" into "${cloneTargetDir.fsPath}"`
+  const { output: didClone, wasCancelled } = await execWithProgress(
+    rad('clone', selectedRid, '--no-confirm'),
     {
-      location: ProgressLocation.Window,
-      title: `‎$(radicle-logo) Cloning ${msgSuffix}…`,
-    },
-    // eslint-disable-next-line require-await, @typescript-eslint/require-await
-    async () => {
-      return exec(`${getRadCliRef()} clone ${selectedRid} --no-confirm`, {
-        cwd: cloneTargetDir.fsPath,
-        timeout: 120_000,
-        shouldLog: true,
-      })
+      title: `Cloning ${msgSuffix}`,
+      cwd: cloneTargetDir.fsPath,
+      timeout: 0,
+      shouldLog: true,
     },
   )
+  if (wasCancelled) {
+    return
+  }
   if (!didClone) {
     const msg = `Failed cloning ${msgSuffix}`
     log(msg, 'error')
@@ -104,7 +74,78 @@ export async function selectAndCloneRadicleRepo(): Promise<void> {
   shouldOpenInNewWindow &&
     commands.executeCommand(
       'vscode.openFolder',
-      Uri.file(`${cloneTargetDir.fsPath}${sep}${projSelection.label}`),
+      Uri.file(`${cloneTargetDir.fsPath}${sep}${selectedName}`),
       { forceNewWindow: true },
     )
 }
+
+/**
+ * Lets the user pick a Radicle repo available on the node and opens its files as of its
+ * latest commit as a read-only folder of the current workspace, without cloning it.
+ */
+export async function browseRadicleRepo(): Promise<void> {
+  const selectedProject = await selectRadicleRepo({
+    purpose: 'browsing',
+    placeHolder: 'Choose a Radicle repo to browse without cloning',
+  })
+  if (!selectedProject) {
+    return
+  }
+
+  const { id, name, head } = selectedProject
+  const didAddFolder = workspace.updateWorkspaceFolders(
+    workspace.workspaceFolders?.length ?? 0,
+    0,
+    { uri: toRadUri(id as RID, head), name: `${name} @ ${shortenHash(head)} (read-only)` },
+  )
+  if (!didAddFolder) {
+    const msg = `Failed opening repo "${name}" with id (RID) "${id}" for browsing`
+    log(msg, 'error')
+    window.showErrorMessage(msg)
+
+    return
+  }
+
+  commands.executeCommand('workbench.view.explorer')
+}
+
+async function selectRadicleRepo(options: {
+  purpose: string
+  placeHolder: string
+}): Promise<Project | undefined> {
+  const { data: repos, error } = await window.withProgress(
+    {
+      location: ProgressLocation.Window,
+      title: `‎$(radicle-logo) Fetching list of repos available for ${options.purpose}…`,
+    },
+    async () => {
+      return await getNodeConnection().getAllProjects()
+    },
+  )
+  if (!repos) {
+    notifyUserAboutFetchError(error)
+
+    return undefined
+  }
+
+  const qPickItems: QuickPickItem[] = repos
+    .sort((p1, p2) => p2.seeding - p1.seeding)
+    .map((proj) => ({
+      label: proj.name,
+      description: `$(radio-tower) ${proj.seeding} | ${proj.id}`,
+      detail: proj.description,
+      icon: 'repo',
+    }))
+
+  const projSelection = await window.showQuickPick(qPickItems, {
+    placeHolder: options.placeHolder,
+    ignoreFocusOut: true,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  })
+  if (!projSelection?.label) {
+    return undefined
+  }
+
+  return repos.find((proj) => proj.name === projSelection.label)
+}
@@ -0,0 +1,41 @@
+import { defineStore, storeToRefs } from 'pinia'
+import { computed } from 'vue'
+import { getFirstAndLatestComments } from 'extensionUtils/issue'
+import type { Comment, IssueDetailInjectedState } from '../../../types'
+import { useWebviewStateStore } from '@/stores/webviewStateStore'
+
+export const useIssueDetailStore = defineStore('issue-detail', () => {
+  const { state, localIdentity, timeLocale } = storeToRefs(useWebviewStateStore())
+
+  const issue = computed(() => (state.value as IssueDetailInjectedState).state.issue)
+
+  const firstAndLatestComments = computed(() => getFirstAndLatestComments(issue.value))
+  const firstComment = computed(() => firstAndLatestComments.value.firstComment)
+  const latestComment = computed(() => firstAndLatestComments.value.latestComment)
+
+  /**
+   * The issue's comments, except the first one which is the issue's description, grouped by
+   * the id of the comment they reply to. Comments replying to the description are keyed under
+   * the description's id.
+   */
+  const repliesByParentId = computed(() =>
+    [...issue.value.discussion]
+      .filter((comment) => comment.id !== firstComment.value.id)
+      .sort((c1, c2) => c1.timestamp - c2.timestamp)
+      .reduce((replies, comment) => {
+        const parentId = comment.replyTo ?? firstComment.value.id
+        replies.set(parentId, [...(replies.get(parentId) ?? []), comment])
+
+        return replies
+      }, new Map<Comment['id'], Comment[]>()),
+  )
+
+  return {
+    issue,
+    firstComment,
+    latestComment,
+    repliesByParentId,
+    localIdentity,
+    timeLocale,
+  }
+})
@@ -1,17 +1,16 @@
-import { useEventListener } from '@vueuse/core'
-import { defineStore } from 'pinia'
-import { computed, ref, watchEffect } from 'vue'
-import { type notifyWebview } from 'extensionUtils/webview-messaging'
+import { defineStore, storeToRefs } from 'pinia'
+import { computed } from 'vue'
 import { getFirstAndLatestRevisions } from 'extensionUtils/patch'
 import type { Patch, PatchDetailInjectedState } from '../../../types'
-import { getVscodeRef } from '@/utils/getVscodeRef'
-
-const vscode = getVscodeRef<PatchDetailInjectedState>()
+import { useWebviewStateStore } from '@/stores/webviewStateStore'
 
 export const usePatchDetailStore = defineStore('patch-detail', () => {
-  const state = ref(vscode.getState() ?? window.injectedWebviewState)
+  const { state, localIdentity, timeLocale } = storeToRefs(useWebviewStateStore())
 
-  const patch = computed(() => state.value.state.patch)
+  const patch = computed(() => (state.value as PatchDetailInjectedState).state.patch)
+  const isLocalIdentityDelegate = computed(
+    () => (state.value as PatchDetailInjectedState).state.isLocalIdentityDelegate,
+  )
 
   const firstAndLatestRevisions = computed(() => getFirstAndLatestRevisions(patch.value))
   const firstRevision = computed(() => firstAndLatestRevisions.value.firstRevision)
@@ -29,7 +28,6 @@ export const usePatchDetailStore = defineStore('patch-detail', () => {
       ),
   )
 
-  const localIdentity = computed(() => state.value.state.localIdentity)
   const identities = computed(() => {
     const mergers = patch.value.merges.map((merge) => merge.author)
     const commenters = patch.value.revisions.flatMap((revision) =>
@@ -50,38 +48,14 @@ export const usePatchDetailStore = defineStore('patch-detail', () => {
     return uniqueIds
   })
 
-  const timeLocale = computed(() => state.value.state.timeLocale)
-
-  watchEffect(() => {
-    // TODO: save and restore scroll position?
-    vscode.setState(state.value)
-  })
-
-  useEventListener(
-    window,
-    'message',
-    (event: MessageEvent<Parameters<typeof notifyWebview>['0']>) => {
-      const message = event.data
-
-      if (message.command === 'updateState') {
-        state.value = message.payload
-      }
-    },
-  )
-
   return {
     patch,
     firstRevision,
     latestRevision,
     authors,
     localIdentity,
+    isLocalIdentityDelegate,
     identities,
     timeLocale,
   }
 })
-
-declare global {
-  interface Window {
-    injectedWebviewState: PatchDetailInjectedState
-  }
-}
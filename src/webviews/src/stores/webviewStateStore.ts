@@ -0,0 +1,44 @@
+import { useEventListener } from '@vueuse/core'
+import { defineStore } from 'pinia'
+import { computed, ref, watchEffect } from 'vue'
+import { type notifyWebview } from 'extensionUtils/webview-messaging'
+import type { WebviewInjectedState } from '../../../types'
+import { getVscodeRef } from '@/utils/getVscodeRef'
+
+const vscode = getVscodeRef<WebviewInjectedState>()
+
+/**
+ * Holds the state injected by the extension into the webview regardless of its kind,
+ * persisting it across webview reloads and keeping it in sync with the extension's updates.
+ */
+export const useWebviewStateStore = defineStore('webview-state', () => {
+  const state = ref(vscode.getState() ?? window.injectedWebviewState)
+
+  const kind = computed(() => state.value.kind)
+  const localIdentity = computed(() => state.value.state.localIdentity)
+  const timeLocale = computed(() => state.value.state.timeLocale)
+
+  watchEffect(() => {
+    vscode.setState(state.value)
+  })
+
+  useEventListener(
+    window,
+    'message',
+    (event: MessageEvent<Parameters<typeof notifyWebview>['0']>) => {
+      const message = event.data
+
+      if (message.command === 'updateState') {
+        state.value = message.payload
+      }
+    },
+  )
+
+  return { state, kind, localIdentity, timeLocale }
+})
+
+declare global {
+  interface Window {
+    injectedWebviewState: WebviewInjectedState
+  }
+}
@@ -3,6 +3,7 @@ export default {
   content: ['./index.html', './src/**/*.{vue,js,ts,jsx,tsx}'],
   safelist: [
     { pattern: /(bg|text)-patch-(draft|open|archived|merged)/ },
+    { pattern: /(bg|text)-issue-(open|closed)/ },
     { pattern: /(bg|text|outline)-vscode-(pre|editor)-(foreground|background)/ },
   ],
   corePlugins: {
@@ -17,6 +18,10 @@ export default {
           archived: 'var(--vscode-patch-archived)',
           merged: 'var(--vscode-patch-merged)',
         },
+        issue: {
+          open: 'var(--vscode-issue-open)',
+          closed: 'var(--vscode-issue-closed)',
+        },
         vscode: {
           'pre-foreground': 'var(--vscode-textPreformat-foreground)',
           'pre-background': 'var(--vscode-textPreformat-background)',
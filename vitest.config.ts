@@ -0,0 +1,8 @@
+import { configDefaults, defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    // the webviews are a separate package, tested via their own vitest config
+    exclude: [...configDefaults.exclude, 'src/webviews/**'],
+  },
+})